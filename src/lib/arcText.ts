@@ -0,0 +1,105 @@
+/**
+ * Lay out a single line of label text along a circular arc, e.g. the bottom rim of a
+ * round ornament. Glyphs are placed one by one and rotated to follow the arc; each
+ * render mode (text, outline, single-line) draws them in glyph-local coordinates.
+ */
+
+export interface LabelArc {
+  cx: number;
+  cy: number;
+  outerRadius: number;  // Outer edge of the text band (cut-line radius minus the offset)
+  startDeg: number;     // Start of the allowed span, clockwise from 12 o'clock (180 = bottom)
+  spanDeg: number;      // Angular extent the text may use; text is centered in it
+  maxHeight: number;    // Max glyph height (ascent + descent), 0 = no limit besides the radius
+}
+
+/** Glyph metrics at font size 1. */
+export interface ArcFontMetrics {
+  advance: (ch: string) => number;
+  ascent: number;
+  descent: number;
+}
+
+export interface ArcGlyph {
+  ch: string;
+  x: number;       // Glyph origin (baseline, horizontal center of the advance) in panel coordinates
+  y: number;
+  rotate: number;  // Degrees, clockwise
+  advance: number; // At the layout font size
+}
+
+export interface ArcTextLayout {
+  fontSize: number;
+  fitFontSize: number;  // Largest size at which the text stays within the span and height
+  glyphs: ArcGlyph[];
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Text centered in the lower half of the circle reads left-to-right with its top toward
+ * the center; anywhere else it runs clockwise with its top pointing outward.
+ */
+function isBottomArc(arc: LabelArc): boolean {
+  const center = (((arc.startDeg + arc.spanDeg / 2) % 360) + 360) % 360;
+  return center > 90 && center < 270;
+}
+
+export function layoutTextOnArc(
+  text: string,
+  arc: LabelArc,
+  metrics: ArcFontMetrics,
+  fontSize?: number
+): ArcTextLayout {
+  const line = text.replace(/\s+/g, ' ').trim();
+  const chars = Array.from(line);
+  const unitWidth = chars.reduce((sum, ch) => sum + metrics.advance(ch), 0);
+  const span = toRad(Math.max(0, Math.min(360, arc.spanDeg)));
+  const bottom = isBottomArc(arc);
+
+  // The baseline sits inside the band's outer edge by the part of the glyph that faces outward
+  const outwardPerUnit = bottom ? metrics.descent : metrics.ascent;
+  const heightPerUnit = metrics.ascent + metrics.descent || 1;
+
+  // Arc length at the baseline must cover the text: unitWidth * s <= span * (outer - outward * s)
+  const bySpan = unitWidth > 0 ? (span * arc.outerRadius) / (unitWidth + span * outwardPerUnit) : 0;
+  const byHeight = arc.maxHeight > 0 ? arc.maxHeight / heightPerUnit : Infinity;
+  const byRadius = arc.outerRadius / heightPerUnit;
+  const fitFontSize = Math.max(0, Math.min(bySpan, byHeight, byRadius));
+
+  const size = fontSize ?? fitFontSize;
+  const radius = arc.outerRadius - outwardPerUnit * size;
+  if (!chars.length || size <= 0 || radius <= 0) return { fontSize: size, fitFontSize, glyphs: [] };
+
+  const centerDeg = arc.startDeg + arc.spanDeg / 2;
+  const totalDeg = ((unitWidth * size) / radius) * (180 / Math.PI);
+
+  const glyphs: ArcGlyph[] = [];
+  let pen = 0;
+  for (const ch of chars) {
+    const advance = metrics.advance(ch) * size;
+    const offsetDeg = ((pen + advance / 2) / radius) * (180 / Math.PI);
+    // Bottom text runs counter-clockwise so it reads left-to-right
+    const angle = bottom ? centerDeg + totalDeg / 2 - offsetDeg : centerDeg - totalDeg / 2 + offsetDeg;
+    glyphs.push({
+      ch,
+      x: arc.cx + radius * Math.sin(toRad(angle)),
+      y: arc.cy - radius * Math.cos(toRad(angle)),
+      rotate: bottom ? angle - 180 : angle,
+      advance,
+    });
+    pen += advance;
+  }
+
+  return { fontSize: size, fitFontSize, glyphs };
+}
+
+/**
+ * Map a point from glyph-local coordinates (origin at the glyph's baseline center) to the panel.
+ */
+export function placeOnArc(glyph: ArcGlyph, x: number, y: number): [number, number] {
+  const a = toRad(glyph.rotate);
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  return [glyph.x + x * cos - y * sin, glyph.y + x * sin + y * cos];
+}
@@ -0,0 +1,200 @@
+import type { ScannedSvgFile } from './fsScan';
+import { getBasename, stripExtension } from './pathUtils';
+
+/**
+ * Import an order spreadsheet (CSV) and map its rows to scanned SVG files.
+ * Each row names a design file, the label to print and how many copies to make.
+ */
+
+export interface OrderEntry {
+  row: number;             // 1-based line in the CSV where the row starts
+  file: ScannedSvgFile;
+  label: string;           // Empty = use the file's normal label
+  quantity: number;
+}
+
+export interface OrderProblem {
+  row: number;
+  value: string;           // The file cell as written in the CSV
+  reason: string;
+}
+
+export interface CsvOrder {
+  name: string;            // CSV file name
+  entries: OrderEntry[];
+  problems: OrderProblem[];
+  totalCopies: number;
+}
+
+// Larger quantities are almost certainly typos, and would build one cell per copy
+const MAX_QUANTITY = 999;
+
+export interface CsvRecord {
+  line: number;            // 1-based line where the record starts
+  fields: string[];
+}
+
+// Delimiters outside quoted fields; commas inside a quoted name don't count
+function countUnquoted(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes).
+ * Semicolon- and tab-separated exports are detected from the first line.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    countUnquoted(firstLine, d) > countUnquoted(firstLine, best) ? d : best
+  );
+
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+  return records;
+}
+
+// Header names recognised for each column (compared lowercase, without spaces/underscores)
+const FILE_HEADERS = ['file', 'filename', 'design', 'designfile', 'svg', 'path', 'artwork'];
+const LABEL_HEADERS = ['label', 'name', 'customer', 'customername', 'text', 'personalization', 'personalisation'];
+const QUANTITY_HEADERS = ['quantity', 'qty', 'count', 'copies'];
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().replace(/\\/g, '/').toLowerCase();
+}
+
+/**
+ * Map CSV rows to files. The first row is treated as a header when it names a file column;
+ * otherwise columns are read as file, label, quantity.
+ * Files match by full path, then by a path relative to the scanned folder, then by file name
+ * (".svg" optional).
+ */
+export function mapCsvOrder(name: string, rows: CsvRecord[], files: ScannedSvgFile[]): CsvOrder {
+  let fileCol = 0;
+  let labelCol = 1;
+  let quantityCol = 2;
+  let firstDataRow = 0;
+
+  const header = (rows[0]?.fields ?? []).map(normalizeHeader);
+  const findCol = (names: string[]) => header.findIndex((h) => names.includes(h));
+  if (findCol(FILE_HEADERS) >= 0) {
+    fileCol = findCol(FILE_HEADERS);
+    labelCol = findCol(LABEL_HEADERS);
+    quantityCol = findCol(QUANTITY_HEADERS);
+    firstDataRow = 1;
+  }
+
+  // Lookup tables; names shared by several files are ambiguous and reported
+  const byPath = new Map<string, ScannedSvgFile>();
+  const byName = new Map<string, ScannedSvgFile[]>();
+  for (const file of files) {
+    byPath.set(normalizeKey(file.path), file);
+    for (const key of new Set([normalizeKey(file.name), normalizeKey(stripExtension(file.name))])) {
+      byName.set(key, [...(byName.get(key) ?? []), file]);
+    }
+  }
+
+  const entries: OrderEntry[] = [];
+  const problems: OrderProblem[] = [];
+
+  for (let r = firstDataRow; r < rows.length; r++) {
+    const { line: row, fields: cells } = rows[r]!;
+    if (cells.every((c) => !c.trim())) continue;
+
+    const value = (cells[fileCol] ?? '').trim();
+    if (!value) {
+      problems.push({ row, value, reason: 'No design file given' });
+      continue;
+    }
+
+    const key = normalizeKey(value);
+    const withExt = key.endsWith('.svg') ? key : `${key}.svg`;
+    let file = byPath.get(key) ?? byPath.get(withExt);
+    if (!file) {
+      // A path relative to the scanned folder, then a bare file name
+      const suffixMatches = key.includes('/')
+        ? files.filter((f) => normalizeKey(f.path).endsWith(`/${withExt}`))
+        : [];
+      const candidates = suffixMatches.length > 0 ? suffixMatches : byName.get(normalizeKey(getBasename(value))) ?? [];
+      if (candidates.length > 1) {
+        problems.push({ row, value, reason: `Matches ${candidates.length} files; use the folder path to pick one` });
+        continue;
+      }
+      file = candidates[0];
+    }
+    if (!file) {
+      problems.push({ row, value, reason: 'No scanned file with this name' });
+      continue;
+    }
+
+    const quantityRaw = quantityCol >= 0 ? (cells[quantityCol] ?? '').trim() : '';
+    const quantity = quantityRaw ? Number(quantityRaw) : 1;
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      problems.push({ row, value, reason: `Invalid quantity "${quantityRaw}"` });
+      continue;
+    }
+    if (quantity > MAX_QUANTITY) {
+      problems.push({ row, value, reason: `Quantity ${quantity} is over the limit of ${MAX_QUANTITY}` });
+      continue;
+    }
+    if (quantity === 0) continue;
+
+    const label = labelCol >= 0 ? (cells[labelCol] ?? '').trim() : '';
+    entries.push({ row, file, label, quantity });
+  }
+
+  return { name, entries, problems, totalCopies: entries.reduce((sum, e) => sum + e.quantity, 0) };
+}
+
+export async function importCsvOrder(csvFile: File, files: ScannedSvgFile[]): Promise<CsvOrder> {
+  const text = await csvFile.text();
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  return mapCsvOrder(csvFile.name, parseCsv(text.replace(/^\uFEFF/, '')), files);
+}
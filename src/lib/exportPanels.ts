@@ -3,6 +3,10 @@
  * All processing happens client-side - no files are uploaded anywhere.
  */
 
+import { parseSvgString } from './svgParse';
+import { escapeXml } from './textFit';
+import { createZip, type ZipEntry } from './zipWriter';
+
 function padIndex(i: number, total: number): string {
   const width = Math.max(3, String(total).length);
   return String(i).padStart(width, '0');
@@ -21,10 +25,9 @@ export function generateExportFileNames(baseName: string, panelCount: number): s
 }
 
 /**
- * Download a single SVG file via browser download
+ * Download a Blob via browser download
  */
-function downloadSvgFile(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'image/svg+xml' });
+function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -35,6 +38,13 @@ function downloadSvgFile(content: string, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Download a single SVG file via browser download
+ */
+function downloadSvgFile(content: string, filename: string): void {
+  downloadBlob(new Blob([content], { type: 'image/svg+xml' }), filename);
+}
+
 /**
  * Download multiple SVG files with a delay between each.
  * This prevents browser download blocking when downloading many files.
@@ -63,15 +73,99 @@ export async function downloadPanelSvgs(
   return fileNames;
 }
 
+export interface ZipExportOptions {
+  /** Optional job description written to manifest.json inside the archive */
+  manifest?: Record<string, unknown>;
+}
+
+/**
+ * Download all panels as a single ZIP archive named `<baseName>.zip`.
+ * Panel files inside use the same names as generateExportFileNames.
+ */
+export function downloadPanelsZip(
+  panelSvgs: string[],
+  baseName: string,
+  options: ZipExportOptions = {}
+): string[] {
+  const fileNames = generateExportFileNames(baseName, panelSvgs.length);
+
+  const entries: ZipEntry[] = panelSvgs.map((content, i) => ({
+    name: fileNames[i]!,
+    content,
+  }));
+
+  if (options.manifest) {
+    entries.push({
+      name: 'manifest.json',
+      content: JSON.stringify({ ...options.manifest, files: fileNames }, null, 2),
+    });
+  }
+
+  downloadBlob(createZip(entries), `${baseName}.zip`);
+  return fileNames;
+}
+
+export interface CombinedSvgOptions {
+  direction?: 'horizontal' | 'vertical';  // Side-by-side (default) or stacked
+  spacingMm?: number;                     // Gap between panels
+}
+
 /**
- * Download all panels as a single combined file (optional)
- * Useful for when the user wants everything in one download
+ * Combine panel SVGs into one valid SVG document.
+ * Each panel becomes a named layer group (Inkscape layer / LightBurn group),
+ * offset so the panels sit side-by-side or stacked with the given spacing.
  */
-export function downloadCombinedSvg(panelSvgs: string[], baseName: string): void {
-  // For combined download, we just concatenate the SVGs with comments between them
-  const combined = panelSvgs.map((svg, i) =>
-    `<!-- Panel ${i + 1} of ${panelSvgs.length} -->\n${svg}`
-  ).join('\n\n');
+export function buildCombinedSvg(panelSvgs: string[], options: CombinedSvgOptions = {}): string {
+  const direction = options.direction ?? 'horizontal';
+  const spacing = Math.max(0, options.spacingMm ?? 10);
+
+  const layers: string[] = [];
+  let cursor = 0;
+  let totalW = 0;
+  let totalH = 0;
+
+  panelSvgs.forEach((svg, i) => {
+    const parsed = parseSvgString(svg);
+    const { x, y, width, height } = parsed.viewBox;
+    const offsetX = direction === 'horizontal' ? cursor : 0;
+    const offsetY = direction === 'vertical' ? cursor : 0;
+    const id = `panel_${padIndex(i + 1, panelSvgs.length)}`;
+    const label = `Panel ${i + 1} of ${panelSvgs.length}`;
 
-  downloadSvgFile(combined, `${baseName}_combined.svg`);
+    layers.push(
+      `<g id="${id}" inkscape:groupmode="layer" inkscape:label="${escapeXml(label)}" transform="translate(${offsetX - x}, ${offsetY - y})">`,
+      parsed.innerContent,
+      `</g>`
+    );
+
+    if (direction === 'horizontal') {
+      totalW = cursor + width;
+      totalH = Math.max(totalH, height);
+      cursor += width + spacing;
+    } else {
+      totalW = Math.max(totalW, width);
+      totalH = cursor + height;
+      cursor += height + spacing;
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${totalW}mm" height="${totalH}mm" viewBox="0 0 ${totalW} ${totalH}">`,
+    ...layers,
+    `</svg>`,
+  ].join('\n');
+}
+
+/**
+ * Download all panels as a single combined SVG document.
+ * Useful for opening the whole job in Inkscape or LightBurn at once.
+ */
+export function downloadCombinedSvg(
+  panelSvgs: string[],
+  baseName: string,
+  options: CombinedSvgOptions = {}
+): string {
+  const fileName = `${baseName}_combined.svg`;
+  downloadSvgFile(buildCombinedSvg(panelSvgs, options), fileName);
+  return fileName;
 }
@@ -0,0 +1,136 @@
+import type { Font } from 'opentype.js';
+import { layoutTextOnArc, placeOnArc, type LabelArc } from './arcText';
+import { chooseLineSplit, getLastBaseline, type TextFitOptions } from './textFit';
+
+/**
+ * Convert label text to vector outlines using a font file supplied by the user.
+ * The font is parsed in the browser (TTF, OTF or WOFF) - nothing is uploaded.
+ * Outlined labels don't depend on fonts installed on the laser PC.
+ */
+
+export interface OutlineFont {
+  name: string;    // Display name (family name from the font, or the file name)
+  source: string;  // Identifies the loaded file; faces of one family share a name
+  font: Font;
+}
+
+export interface OutlineTextFit {
+  d: string;               // SVG path data for the whole label
+  fontSize: number;
+  fitFontSize: number;     // Largest size at which the label fits the box
+  missingChars: string[];  // Characters the font has no glyph for (rendered as .notdef)
+}
+
+/**
+ * Parse a font file selected by the user.
+ */
+export async function loadOutlineFont(file: File): Promise<OutlineFont> {
+  const buffer = await file.arrayBuffer();
+  // Loaded on demand so the font parser only ships to users who outline labels
+  const { parse } = await import('opentype.js');
+  let font: Font;
+  try {
+    font = parse(buffer);
+  } catch (e) {
+    throw new Error(`Could not read font "${file.name}": ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!font.supported) {
+    throw new Error(`Unsupported font format: ${file.name}`);
+  }
+  const family = font.names.fontFamily?.en;
+  return { name: family || file.name, source: `${file.name}:${file.size}:${file.lastModified}`, font };
+}
+
+function getMissingChars(font: Font, text: string): string[] {
+  return Array.from(new Set(Array.from(text))).filter((ch) => ch.trim() && !font.hasChar(ch));
+}
+
+/**
+ * Vertical metrics at a given size, from the font's ascender/descender (descender is negative).
+ */
+function getLineMetrics(font: Font, fontSize: number): { ascent: number; descent: number } {
+  const unit = fontSize / font.unitsPerEm;
+  return { ascent: font.ascender * unit, descent: -font.descender * unit };
+}
+
+/**
+ * Fit text into a box as outlines, using the same rules as calculateTextFit:
+ * wrap into up to maxLines, scale to 99% of the box (or use a fixed size), center each
+ * line horizontally and sit the last line's descent on the box bottom.
+ */
+export function fitTextOutline(
+  text: string,
+  outlineFont: OutlineFont,
+  box: { x: number; y: number; width: number; height: number },
+  options: TextFitOptions = {}
+): OutlineTextFit {
+  const { font } = outlineFont;
+  const missingChars = getMissingChars(font, text);
+
+  if (!text.trim() || box.width <= 0 || box.height <= 0) {
+    return { d: '', fontSize: options.fontSize ?? 12, fitFontSize: 0, missingChars };
+  }
+
+  const refSize = 100;
+  const refMetrics = getLineMetrics(font, refSize);
+  const refLineHeight = refMetrics.ascent + refMetrics.descent || refSize * 1.2;
+  const split = chooseLineSplit(
+    text,
+    options.maxLines ?? 1,
+    box,
+    (line) => font.getAdvanceWidth(line, refSize) || line.length * refSize * 0.6,
+    refLineHeight
+  );
+
+  const fitFontSize = Math.max(1, Math.min(refSize * split.scale, 2000));
+  const fontSize = options.fontSize ?? fitFontSize;
+  const { descent } = getLineMetrics(font, fontSize);
+  const lineHeight = refLineHeight * (fontSize / refSize);
+  const lastBaseline = getLastBaseline(box, split.lines.length, lineHeight, descent, options.fontSize !== undefined);
+
+  const d = split.lines
+    .map((line, i) => {
+      const width = font.getAdvanceWidth(line, fontSize);
+      const x = box.x + (box.width - width) / 2;
+      const y = lastBaseline - (split.lines.length - 1 - i) * lineHeight;
+      return font.getPath(line, x, y, fontSize).toPathData(3);
+    })
+    .join(' ');
+
+  return { d, fontSize, fitFontSize, missingChars };
+}
+
+/**
+ * Outlines following a circular arc (see layoutTextOnArc). Glyphs are placed without kerning.
+ */
+export function fitTextOutlineOnArc(
+  text: string,
+  outlineFont: OutlineFont,
+  arc: LabelArc,
+  options: { fontSize?: number } = {}
+): OutlineTextFit {
+  const { font } = outlineFont;
+  const missingChars = getMissingChars(font, text);
+  const unit = getLineMetrics(font, 1);
+  const layout = layoutTextOnArc(
+    text,
+    arc,
+    { advance: (ch) => font.getAdvanceWidth(ch, 1) || 0.6, ascent: unit.ascent, descent: unit.descent },
+    options.fontSize
+  );
+
+  const commands: string[] = [];
+  const pt = (glyph: (typeof layout.glyphs)[number], x: number, y: number) =>
+    placeOnArc(glyph, x, y).map((n) => Math.round(n * 1000) / 1000).join(',');
+  for (const glyph of layout.glyphs) {
+    const path = font.getPath(glyph.ch, -glyph.advance / 2, 0, layout.fontSize);
+    for (const c of path.commands) {
+      if (c.type === 'M' || c.type === 'L') commands.push(`${c.type}${pt(glyph, c.x, c.y)}`);
+      else if (c.type === 'Q') commands.push(`Q${pt(glyph, c.x1, c.y1)} ${pt(glyph, c.x, c.y)}`);
+      else if (c.type === 'C') commands.push(`C${pt(glyph, c.x1, c.y1)} ${pt(glyph, c.x2, c.y2)} ${pt(glyph, c.x, c.y)}`);
+      else if (c.type === 'Z') commands.push('Z');
+    }
+  }
+
+  return { d: commands.join(' '), fontSize: layout.fontSize, fitFontSize: layout.fitFontSize, missingChars };
+}
@@ -5,6 +5,7 @@ export interface ScannedSvgFile {
   name: string;           // filename
   parentFolder: string;   // immediate parent folder name
   file: File;             // Store File object for later reading
+  labelFromTemplate?: boolean;  // Label came from the label template and may hold position tokens
 }
 
 export interface ScanResult {
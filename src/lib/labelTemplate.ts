@@ -0,0 +1,114 @@
+import { getBasename, getBasenameNoExt, getNthParentFolderName } from './pathUtils';
+
+/**
+ * Label templates: a string such as "{folder:1} – {name} #{index}" evaluated per file.
+ *
+ * Tokens:
+ *   {folder} / {folder:N}  folder name N levels above the file (0 = immediate parent)
+ *   {name}                 file name without extension
+ *   {file}                 file name with extension
+ *   {match} / {match:N}    capture group N of the path regex (default 1, 0 = whole match)
+ *   {index} / {index:W}    running 1-based position in the output, optionally zero-padded to W digits
+ *   {panel}                1-based panel number
+ *   {row} / {col}          1-based cell position within the panel
+ *   {cell}                 1-based cell number within the panel
+ *
+ * Position tokens are filled by buildPanelSvgs from where each file actually lands; nested
+ * layouts have no rows or columns, so {row} and {col} print "?" there.
+ */
+
+export interface LabelPosition {
+  index: number;  // 1-based running position across all panels
+  panel: number;  // 1-based
+  row: number;    // 1-based
+  col: number;    // 1-based
+  cell: number;   // 1-based position within the panel
+}
+
+export interface LabelTemplateContext {
+  path: string;
+  position?: LabelPosition;  // Unknown for files that aren't placed (position tokens render as "?")
+  keepPositionTokens?: boolean;  // Leave position tokens for resolvePositionTokens
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+const POSITION_TOKENS = new Set(['index', 'panel', 'row', 'col', 'cell']);
+const KNOWN_TOKENS = new Set(['folder', 'name', 'file', 'match', ...POSITION_TOKENS]);
+
+/**
+ * Tokens in the template that renderLabelTemplate doesn't understand (left as-is in the output).
+ */
+export function findUnknownTokens(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const m of template.matchAll(TOKEN_PATTERN)) {
+    if (!KNOWN_TOKENS.has(m[1]!)) unknown.add(m[0]);
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Compile the optional path regex used by {match:N}.
+ * Returns an error message instead of throwing so the UI can show it inline.
+ */
+export function compilePathRegex(source: string): { regex: RegExp | null; error: string | null } {
+  if (!source.trim()) return { regex: null, error: null };
+  try {
+    return { regex: new RegExp(source), error: null };
+  } catch (e) {
+    return { regex: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Whether the template uses any of the given tokens (e.g. ['row', 'col']).
+ */
+export function usesTokens(template: string, names: string[]): boolean {
+  return Array.from(template.matchAll(TOKEN_PATTERN)).some((m) => names.includes(m[1]!));
+}
+
+function renderPositionToken(name: string, n: number | undefined, pos: Partial<LabelPosition> | undefined): string {
+  const value = pos?.[name as keyof LabelPosition];
+  if (value === undefined) return '?';
+  return name === 'index' ? String(value).padStart(n ?? 0, '0') : String(value);
+}
+
+/**
+ * Fill the position tokens left in a label (see keepPositionTokens). Missing fields print "?".
+ */
+export function resolvePositionTokens(label: string, position: Partial<LabelPosition>): string {
+  return label
+    .replace(TOKEN_PATTERN, (token, name: string, arg: string | undefined) =>
+      POSITION_TOKENS.has(name) ? renderPositionToken(name, arg !== undefined ? parseInt(arg, 10) : undefined, position) : token
+    )
+    .trim();
+}
+
+export function renderLabelTemplate(template: string, context: LabelTemplateContext, pathRegex: RegExp | null = null): string {
+  const match = pathRegex ? context.path.match(pathRegex) : null;
+  const pos = context.position;
+
+  return template
+    .replace(TOKEN_PATTERN, (token, name: string, arg: string | undefined) => {
+      const n = arg !== undefined ? parseInt(arg, 10) : undefined;
+      if (context.keepPositionTokens && POSITION_TOKENS.has(name)) return token;
+      switch (name) {
+        case 'folder':
+          return getNthParentFolderName(context.path, n ?? 0);
+        case 'name':
+          return getBasenameNoExt(context.path);
+        case 'file':
+          return getBasename(context.path);
+        case 'match':
+          return match?.[n ?? 1] ?? '';
+        case 'index':
+        case 'panel':
+        case 'row':
+        case 'col':
+        case 'cell':
+          return renderPositionToken(name, n, pos);
+        default:
+          return token;
+      }
+    })
+    .trim();
+}
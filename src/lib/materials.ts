@@ -0,0 +1,77 @@
+/**
+ * Material stock library: the sheets we cut from, with their size, thickness and cost.
+ * Choosing one sets the panel size and the material's defaults; the summary estimates cost.
+ */
+
+export interface Material {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+  thicknessMm: number;
+  costPerSheet: number;
+  gutterMm?: number;                       // Gap between items on this material (unset = keep current)
+  layerPreset?: 'original' | 'inverted';   // Layer settings to switch to (unset = keep current)
+}
+
+export interface MaterialUsage {
+  sheets: number;
+  cost: number;
+  sheetAreaMm2: number;     // Total area of the sheets used
+  utilization: number;      // Art area / sheet area (0..1)
+}
+
+const STORAGE_KEY = 'svgPanelGeneratorMaterials';
+
+export const DEFAULT_MATERIALS: Material[] = [
+  { id: 'birch-300x300', name: 'Birch plywood 3 mm', widthMm: 300, heightMm: 300, thicknessMm: 3, costPerSheet: 4.5 },
+  { id: 'acrylic-600x400', name: 'Acrylic 3 mm', widthMm: 600, heightMm: 400, thicknessMm: 3, costPerSheet: 18 },
+];
+
+function isMaterial(value: unknown): value is Material {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.id === 'string' &&
+    typeof m.name === 'string' &&
+    [m.widthMm, m.heightMm, m.thicknessMm, m.costPerSheet].every((n) => typeof n === 'number' && Number.isFinite(n)) &&
+    (m.gutterMm === undefined || typeof m.gutterMm === 'number') &&
+    (m.layerPreset === undefined || m.layerPreset === 'original' || m.layerPreset === 'inverted')
+  );
+}
+
+/**
+ * Saved library, or the defaults when nothing (valid) is saved. Malformed entries are dropped.
+ */
+export function loadMaterials(): Material[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (Array.isArray(saved)) return saved.filter(isMaterial);
+  } catch {
+    // ignore
+  }
+  return DEFAULT_MATERIALS;
+}
+
+export function saveMaterials(materials: Material[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(materials));
+  } catch {
+    // ignore
+  }
+}
+
+export function createMaterialId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'material';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+export function estimateMaterialUsage(material: Material, sheets: number, artAreaMm2: number): MaterialUsage {
+  const sheetAreaMm2 = sheets * material.widthMm * material.heightMm;
+  return {
+    sheets,
+    cost: sheets * material.costPerSheet,
+    sheetAreaMm2,
+    utilization: sheetAreaMm2 > 0 ? Math.min(1, artAreaMm2 / sheetAreaMm2) : 0,
+  };
+}
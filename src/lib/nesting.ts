@@ -0,0 +1,458 @@
+import { countPanelsWithOwnKeepOut, keepOutBounds, keepOutForPanel, type KeepOutShape, type KeepOutZone, type PanelMargins } from './panelLayout';
+
+/**
+ * Rectangle nesting: pack items of different sizes onto as few panels as possible.
+ * Uses the MaxRects algorithm (best short side fit) with items sorted largest first.
+ */
+
+export interface NestItem {
+  id: number;
+  width: number;
+  height: number;
+  rotatedWidth?: number;   // Size when turned 90°; omit to disallow rotation for this item
+  rotatedHeight?: number;
+}
+
+export interface NestSheet {
+  width: number;
+  height: number;
+  margins: PanelMargins;
+  spacingMm: number;       // Minimum gap between items
+  keepOut?: KeepOutZone[]; // Unusable areas; items keep the spacing from them too
+}
+
+export interface NestPlacement {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotated: boolean;
+}
+
+export interface NestResult {
+  panels: NestPlacement[][];
+  unplaced: number[];      // Ids of items larger than an empty panel
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const EPS = 1e-6;
+
+function contains(a: Rect, b: Rect): boolean {
+  return b.x >= a.x - EPS && b.y >= a.y - EPS && b.x + b.width <= a.x + a.width + EPS && b.y + b.height <= a.y + a.height + EPS;
+}
+
+/**
+ * Free space of one panel, as the maximal empty rectangles.
+ */
+class MaxRectsBin {
+  private free: Rect[];
+
+  constructor(width: number, height: number) {
+    this.free = [{ x: 0, y: 0, width, height }];
+  }
+
+  /**
+   * Best position for a w x h rectangle, or null if it doesn't fit. Lower score is better.
+   */
+  find(width: number, height: number): { rect: Rect; score: [number, number] } | null {
+    let best: { rect: Rect; score: [number, number] } | null = null;
+    for (const f of this.free) {
+      if (width > f.width + EPS || height > f.height + EPS) continue;
+      const shortSide = Math.min(f.width - width, f.height - height);
+      const longSide = Math.max(f.width - width, f.height - height);
+      if (!best || shortSide < best.score[0] || (shortSide === best.score[0] && longSide < best.score[1])) {
+        best = { rect: { x: f.x, y: f.y, width, height }, score: [shortSide, longSide] };
+      }
+    }
+    return best;
+  }
+
+  place(used: Rect): void {
+    const next: Rect[] = [];
+    for (const f of this.free) {
+      const overlaps =
+        used.x < f.x + f.width - EPS && used.x + used.width > f.x + EPS && used.y < f.y + f.height - EPS && used.y + used.height > f.y + EPS;
+      if (!overlaps) {
+        next.push(f);
+        continue;
+      }
+      // Split the free rectangle into the (up to four) parts not covered by `used`
+      if (used.x > f.x + EPS) next.push({ x: f.x, y: f.y, width: used.x - f.x, height: f.height });
+      if (used.x + used.width < f.x + f.width - EPS) {
+        next.push({ x: used.x + used.width, y: f.y, width: f.x + f.width - (used.x + used.width), height: f.height });
+      }
+      if (used.y > f.y + EPS) next.push({ x: f.x, y: f.y, width: f.width, height: used.y - f.y });
+      if (used.y + used.height < f.y + f.height - EPS) {
+        next.push({ x: f.x, y: used.y + used.height, width: f.width, height: f.y + f.height - (used.y + used.height) });
+      }
+    }
+    // Drop free rectangles contained in another one
+    this.free = next.filter((a, i) => !next.some((b, j) => j !== i && contains(b, a) && (!contains(a, b) || j < i)));
+  }
+}
+
+/**
+ * Pack items onto panels. Each item reserves its size plus spacing on the right and bottom;
+ * the usable area is grown by the same spacing so items can touch the margin.
+ */
+export function nestRectangles(items: NestItem[], sheet: NestSheet): NestResult {
+  const usableW = sheet.width - sheet.margins.left - sheet.margins.right + sheet.spacingMm;
+  const usableH = sheet.height - sheet.margins.top - sheet.margins.bottom + sheet.spacingMm;
+  const pad = sheet.spacingMm;
+
+  const orientations = (item: NestItem) => {
+    const options = [{ width: item.width + pad, height: item.height + pad, rotated: false }];
+    if (item.rotatedWidth !== undefined && item.rotatedHeight !== undefined) {
+      options.push({ width: item.rotatedWidth + pad, height: item.rotatedHeight + pad, rotated: true });
+    }
+    return options;
+  };
+
+  const order = [...items].sort((a, b) => b.width * b.height - a.width * a.height || a.id - b.id);
+  const bins: MaxRectsBin[] = [];
+  const panels: NestPlacement[][] = [];
+  const unplaced: number[] = [];
+
+  for (const item of order) {
+    const fitsEmpty = orientations(item).some((o) => o.width <= usableW + EPS && o.height <= usableH + EPS);
+    if (!fitsEmpty) {
+      unplaced.push(item.id);
+      continue;
+    }
+
+    // First panel with room, best orientation within it
+    let placed = false;
+    for (let b = 0; b <= bins.length && !placed; b++) {
+      const fresh = b === bins.length;
+      if (fresh) {
+        const bin = new MaxRectsBin(usableW, usableH);
+        // Items reserve the spacing to their right and below, so a zone only adds it on its far side
+        for (const shape of keepOutForPanel(sheet.keepOut, b)) {
+          const z = keepOutBounds(shape);
+          bin.place({ x: z.x - sheet.margins.left, y: z.y - sheet.margins.top, width: z.width + pad, height: z.height + pad });
+        }
+        bins.push(bin);
+        panels.push([]);
+      }
+      let best: { rect: Rect; score: [number, number]; rotated: boolean } | null = null;
+      for (const o of orientations(item)) {
+        const found = bins[b]!.find(o.width, o.height);
+        if (found && (!best || found.score[0] < best.score[0] || (found.score[0] === best.score[0] && found.score[1] < best.score[1]))) {
+          best = { ...found, rotated: o.rotated };
+        }
+      }
+      if (!best) {
+        // Every later panel is this one again: the item only fits around no keep-out zones
+        if (fresh && b >= countPanelsWithOwnKeepOut(sheet.keepOut)) {
+          bins.pop();
+          panels.pop();
+          unplaced.push(item.id);
+          break;
+        }
+        continue;
+      }
+
+      bins[b]!.place(best.rect);
+      panels[b]!.push({
+        id: item.id,
+        x: sheet.margins.left + best.rect.x,
+        y: sheet.margins.top + best.rect.y,
+        width: best.rect.width - pad,
+        height: best.rect.height - pad,
+        rotated: best.rotated,
+      });
+      placed = true;
+    }
+  }
+
+  // Keep the caller's item order within each panel
+  for (const panel of panels) panel.sort((a, b) => a.id - b.id);
+  return { panels, unplaced };
+}
+
+export type NestPoint = { x: number; y: number };
+
+export interface NestShape {
+  id: number;
+  width: number;                  // Item box; the outlines lie inside it
+  height: number;
+  polygons: NestPoint[][];        // Outlines in item coordinates (cut line, label area, ...)
+  rotatedWidth?: number;          // Item turned 90°; omit to disallow rotation for this item
+  rotatedHeight?: number;
+  rotatedPolygons?: NestPoint[][];
+}
+
+export interface ContourNestSheet extends NestSheet {
+  resolutionMm?: number;          // Raster cell size; default scales with the sheet (~500 cells on the long side)
+}
+
+export interface ContourNestResult extends NestResult {
+  utilization: number[];          // Per panel: outline area / sheet area (0..1)
+}
+
+// Row intervals of a rasterized footprint, in cells relative to the item's origin cell
+type Span = { dy: number; x0: number; x1: number };
+
+type Footprint = {
+  cols: number;
+  rows: number;
+  filled: Span[];                 // Cells the outlines cover (marked as used once placed)
+  clearance: Span[];              // Filled cells grown by the spacing (must be free to place)
+};
+
+function polygonArea(polygon: NestPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]!;
+    const b = polygon[(i + 1) % polygon.length]!;
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+function toSpans(mask: Uint8Array, cols: number, rows: number, offset: number): Span[] {
+  const spans: Span[] = [];
+  for (let y = 0; y < rows; y++) {
+    let start = -1;
+    for (let x = 0; x <= cols; x++) {
+      const on = x < cols && mask[y * cols + x] === 1;
+      if (on && start < 0) start = x;
+      if (!on && start >= 0) {
+        spans.push({ dy: y - offset, x0: start - offset, x1: x - 1 - offset });
+        start = -1;
+      }
+    }
+  }
+  return spans;
+}
+
+/**
+ * Rasterize outlines by sampling cell centers (even-odd rule per polygon). The clearance grows
+ * the result by the spacing plus one cell, so sampling never lets outlines come closer than the spacing.
+ */
+function rasterize(width: number, height: number, polygons: NestPoint[][], res: number, spacingMm: number): Footprint {
+  const cols = Math.max(1, Math.ceil(width / res - EPS));
+  const rows = Math.max(1, Math.ceil(height / res - EPS));
+  const mask = new Uint8Array(cols * rows);
+
+  for (let y = 0; y < rows; y++) {
+    const cy = (y + 0.5) * res;
+    for (const polygon of polygons) {
+      const crossings: number[] = [];
+      for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i]!;
+        const b = polygon[(i + 1) % polygon.length]!;
+        if ((a.y <= cy && b.y > cy) || (b.y <= cy && a.y > cy)) {
+          crossings.push(a.x + ((cy - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((p, q) => p - q);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.ceil(crossings[i]! / res - 0.5));
+        const to = Math.min(cols - 1, Math.floor(crossings[i + 1]! / res - 0.5));
+        for (let x = from; x <= to; x++) mask[y * cols + x] = 1;
+      }
+    }
+  }
+
+  const k = Math.ceil(spacingMm / res) + 1;
+  const grownCols = cols + k * 2;
+  const grownRows = rows + k * 2;
+  const grown = new Uint8Array(grownCols * grownRows);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (!mask[y * cols + x]) continue;
+      for (let dy = -k; dy <= k; dy++) {
+        const dx = Math.floor(Math.sqrt(k * k - dy * dy));
+        const row = (y + k + dy) * grownCols;
+        for (let gx = x + k - dx; gx <= x + k + dx; gx++) grown[row + gx] = 1;
+      }
+    }
+  }
+
+  return { cols, rows, filled: toSpans(mask, cols, rows, 0), clearance: toSpans(grown, grownCols, grownRows, k) };
+}
+
+/**
+ * Occupancy raster of one panel, with per-row prefix sums for constant-time span checks.
+ */
+class RasterSheet {
+  private cols: number;
+  private rows: number;
+  private used: Uint8Array;
+  private prefix: Int32Array;
+
+  constructor(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.used = new Uint8Array(cols * rows);
+    this.prefix = new Int32Array((cols + 1) * rows);
+  }
+
+  /**
+   * Column of a used cell blocking the footprint at (ox, oy), or -1 if it fits there.
+   * Returns the rightmost blocking cell of the first blocked span so the search can skip past it.
+   */
+  private blocker(fp: Footprint, ox: number, oy: number): number {
+    for (const s of fp.clearance) {
+      const row = oy + s.dy;
+      if (row < 0 || row >= this.rows) continue;
+      const a = Math.max(0, ox + s.x0);
+      const b = Math.min(this.cols - 1, ox + s.x1);
+      if (a > b) continue;
+      const base = row * (this.cols + 1);
+      if (this.prefix[base + b + 1]! - this.prefix[base + a]! === 0) continue;
+      let c = b;
+      while (!this.used[row * this.cols + c]) c--;
+      return c - s.x0;
+    }
+    return -1;
+  }
+
+  /**
+   * Topmost, then leftmost position for the footprint (scanning down from row 0) whose bottom
+   * edge stays above `maxBottom`.
+   */
+  find(fp: Footprint, maxBottom = Infinity): { ox: number; oy: number } | null {
+    for (let oy = 0; oy + fp.rows <= this.rows && oy + fp.rows < maxBottom; oy++) {
+      let ox = 0;
+      while (ox + fp.cols <= this.cols) {
+        const c = this.blocker(fp, ox, oy);
+        if (c < 0) return { ox, oy };
+        ox = Math.max(ox + 1, c + 1);
+      }
+    }
+    return null;
+  }
+
+  place(fp: Footprint, ox: number, oy: number): void {
+    const touched = new Set<number>();
+    for (const s of fp.filled) {
+      const row = oy + s.dy;
+      if (row < 0 || row >= this.rows) continue;
+      for (let x = Math.max(0, ox + s.x0); x <= Math.min(this.cols - 1, ox + s.x1); x++) this.used[row * this.cols + x] = 1;
+      touched.add(row);
+    }
+    for (const row of touched) {
+      const base = row * (this.cols + 1);
+      for (let x = 0; x < this.cols; x++) this.prefix[base + x + 1] = this.prefix[base + x]! + this.used[row * this.cols + x]!;
+    }
+  }
+}
+
+/**
+ * Mark a keep-out zone as used. Zones are rasterized like outlines, so items keep the
+ * spacing from them through their clearance.
+ */
+function blockKeepOut(raster: RasterSheet, shape: KeepOutShape, margins: PanelMargins, res: number): void {
+  const b = keepOutBounds(shape);
+  const ox = Math.floor((b.x - margins.left) / res);
+  const oy = Math.floor((b.y - margins.top) / res);
+  const originX = margins.left + ox * res;
+  const originY = margins.top + oy * res;
+  const points =
+    shape.kind === 'rect'
+      ? [
+          { x: shape.x, y: shape.y },
+          { x: shape.x + shape.width, y: shape.y },
+          { x: shape.x + shape.width, y: shape.y + shape.height },
+          { x: shape.x, y: shape.y + shape.height },
+        ]
+      : shape.points;
+  const local = points.map((p) => ({ x: p.x - originX, y: p.y - originY }));
+  raster.place(rasterize(b.x + b.width - originX, b.y + b.height - originY, [local], res, 0), ox, oy);
+}
+
+/**
+ * Pack items by their outlines instead of their boxes, so round or irregular parts can sit
+ * closer together. Outlines are rasterized and placed top-left style (topmost, then leftmost
+ * free position) on the first panel with room, largest items first.
+ */
+export function nestPolygons(items: NestShape[], sheet: ContourNestSheet): ContourNestResult {
+  const usableW = sheet.width - sheet.margins.left - sheet.margins.right;
+  const usableH = sheet.height - sheet.margins.top - sheet.margins.bottom;
+  const res = sheet.resolutionMm ?? Math.max(0.5, Math.max(usableW, usableH) / 500);
+  const sheetCols = Math.max(0, Math.floor(usableW / res + EPS));
+  const sheetRows = Math.max(0, Math.floor(usableH / res + EPS));
+
+  const variants = items.map((item) => {
+    const options = [{ rotated: false, width: item.width, height: item.height, fp: rasterize(item.width, item.height, item.polygons, res, sheet.spacingMm) }];
+    if (item.rotatedWidth !== undefined && item.rotatedHeight !== undefined && item.rotatedPolygons) {
+      options.push({
+        rotated: true,
+        width: item.rotatedWidth,
+        height: item.rotatedHeight,
+        fp: rasterize(item.rotatedWidth, item.rotatedHeight, item.rotatedPolygons, res, sheet.spacingMm),
+      });
+    }
+    return options.filter((o) => o.fp.cols <= sheetCols && o.fp.rows <= sheetRows);
+  });
+
+  const order = items.map((_, i) => i).sort((a, b) => items[b]!.width * items[b]!.height - items[a]!.width * items[a]!.height || a - b);
+  const sheets: RasterSheet[] = [];
+  const panels: NestPlacement[][] = [];
+  const unplaced: number[] = [];
+
+  for (const i of order) {
+    const item = items[i]!;
+    const options = variants[i]!;
+    if (options.length === 0) {
+      unplaced.push(item.id);
+      continue;
+    }
+
+    for (let p = 0; p <= sheets.length; p++) {
+      const fresh = p === sheets.length;
+      if (fresh) {
+        const raster = new RasterSheet(sheetCols, sheetRows);
+        for (const shape of keepOutForPanel(sheet.keepOut, p)) blockKeepOut(raster, shape, sheet.margins, res);
+        sheets.push(raster);
+        panels.push([]);
+      }
+      // Orientation whose bottom edge ends up highest on the sheet (least bottom extent)
+      let best: { option: (typeof options)[number]; ox: number; oy: number } | null = null;
+      for (const option of options) {
+        const bottom = best ? best.oy + best.option.fp.rows : Infinity;
+        const found = sheets[p]!.find(option.fp, bottom);
+        if (found) best = { option, ...found };
+      }
+      if (!best) {
+        if (fresh && p >= countPanelsWithOwnKeepOut(sheet.keepOut)) {
+          sheets.pop();
+          panels.pop();
+          unplaced.push(item.id);
+          break;
+        }
+        continue;
+      }
+
+      sheets[p]!.place(best.option.fp, best.ox, best.oy);
+      panels[p]!.push({
+        id: item.id,
+        x: sheet.margins.left + best.ox * res,
+        y: sheet.margins.top + best.oy * res,
+        width: best.option.width,
+        height: best.option.height,
+        rotated: best.option.rotated,
+      });
+      break;
+    }
+  }
+
+  for (const panel of panels) panel.sort((a, b) => a.id - b.id);
+
+  // Top-left placement staggers rows of equal parts; when plain box nesting needs fewer
+  // panels (e.g. identical circles that line up exactly), its layout is just as valid here
+  const boxes = nestRectangles(items, sheet);
+  const chosen = boxes.panels.length < panels.length && boxes.unplaced.length <= unplaced.length ? boxes : { panels, unplaced };
+
+  const areaById = new Map(items.map((item) => [item.id, item.polygons.reduce((sum, polygon) => sum + polygonArea(polygon), 0)]));
+  const sheetArea = sheet.width * sheet.height;
+  const utilization = chosen.panels.map((panel) => {
+    const used = panel.reduce((sum, p) => sum + (areaById.get(p.id) ?? 0), 0);
+    return sheetArea > 0 ? Math.min(1, used / sheetArea) : 0;
+  });
+  return { ...chosen, utilization };
+}
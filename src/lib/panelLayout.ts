@@ -1,44 +1,392 @@
 export interface PanelLayoutSettings {
   panelWidthMm: number;
   panelHeightMm: number;
-  cellSizeMm: number;
-  marginMm: number;
+  cellWidthMm: number;
+  cellHeightMm: number;
+  marginMm: number;         // All edges, unless set per edge below
+  marginTopMm?: number;
+  marginRightMm?: number;
+  marginBottomMm?: number;
+  marginLeftMm?: number;
   gutterMm: number;
+  layoutMode?: LayoutMode;  // Default: 'grid'
+  fillOrder?: FillOrder;    // Order items fill the cells (default: 'rows')
+  keepOut?: KeepOutShape[]; // Unusable areas of this panel; cells touching them are skipped
 }
 
+/**
+ * An unusable area of a panel in panel mm, e.g. already cut parts of a remnant sheet.
+ */
+export type KeepOutShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'polygon'; points: Array<{ x: number; y: number }> };
+
+export type KeepOutZone = KeepOutShape & {
+  panel?: number;  // 1-based panel the zone is on; omit for every panel
+};
+
+/**
+ * Zones on a panel (0-based index): those for every panel plus the panel's own.
+ * Without an index only the zones for every panel are returned.
+ */
+export function keepOutForPanel(zones: KeepOutZone[] | undefined, panelIndex?: number): KeepOutShape[] {
+  return (zones ?? []).filter((z) => z.panel === undefined || (panelIndex !== undefined && z.panel === panelIndex + 1));
+}
+
+/**
+ * Number of leading panels whose zones differ from the rest (the highest panel a zone names).
+ */
+export function countPanelsWithOwnKeepOut(zones: KeepOutZone[] | undefined): number {
+  return Math.max(0, ...(zones ?? []).map((z) => z.panel ?? 0));
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export function keepOutBounds(shape: KeepOutShape): Rect {
+  if (shape.kind === 'rect') return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+  const xs = shape.points.map((p) => p.x);
+  const ys = shape.points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function pointInPolygon(x: number, y: number, points: Array<{ x: number; y: number }>): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i]!;
+    const b = points[j]!;
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+function segmentsCross(
+  p1: { x: number; y: number },
+  p2: { x: number; y: number },
+  q1: { x: number; y: number },
+  q2: { x: number; y: number }
+): boolean {
+  const cross = (a: { x: number; y: number }, b: { x: number; y: number }, c: { x: number; y: number }) =>
+    (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * Whether a keep-out shape overlaps a rectangle (touching edges don't count).
+ */
+export function keepOutIntersects(shape: KeepOutShape, rect: Rect): boolean {
+  const b = keepOutBounds(shape);
+  const boxesOverlap = b.x < rect.x + rect.width && b.x + b.width > rect.x && b.y < rect.y + rect.height && b.y + b.height > rect.y;
+  if (!boxesOverlap || shape.kind === 'rect') return boxesOverlap;
+
+  const pts = shape.points;
+  if (pts.some((p) => p.x > rect.x && p.x < rect.x + rect.width && p.y > rect.y && p.y < rect.y + rect.height)) return true;
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+  if (pointInPolygon(rect.x + rect.width / 2, rect.y + rect.height / 2, pts)) return true;
+  if (corners.some((c) => pointInPolygon(c.x, c.y, pts))) return true;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i]!;
+    const c = pts[(i + 1) % pts.length]!;
+    for (let k = 0; k < 4; k++) {
+      if (segmentsCross(a, c, corners[k]!, corners[(k + 1) % 4]!)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Drop placements touching a keep-out zone and renumber the rest.
+ */
+function skipKeepOut(placements: GridLayout['placements'], keepOut: KeepOutShape[] | undefined): GridLayout['placements'] {
+  if (!keepOut?.length) return placements;
+  return placements
+    .filter((p) => !keepOut.some((shape) => keepOutIntersects(shape, p)))
+    .map((p, indexInPanel) => ({ ...p, indexInPanel }));
+}
+
+export interface PanelMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Per-edge margins, falling back to marginMm for edges that aren't set.
+ */
+export function resolveMargins(
+  settings: Pick<PanelLayoutSettings, 'marginMm' | 'marginTopMm' | 'marginRightMm' | 'marginBottomMm' | 'marginLeftMm'>
+): PanelMargins {
+  return {
+    top: settings.marginTopMm ?? settings.marginMm,
+    right: settings.marginRightMm ?? settings.marginMm,
+    bottom: settings.marginBottomMm ?? settings.marginMm,
+    left: settings.marginLeftMm ?? settings.marginMm,
+  };
+}
+
+/**
+ * 'nest' packs each file at its own measured size (see nestRectangles) and 'contour' by its
+ * cut-line outline (see nestPolygons); both happen while building panels, so the layout here
+ * is only the fixed-cell estimate.
+ */
+export type LayoutMode = 'grid' | 'hex' | 'nest' | 'contour';
+
+/**
+ * Order cells are filled in, so a partly filled last panel leaves its offcut where wanted.
+ * 'rows' = left to right, top to bottom; 'columns' = top to bottom, left to right;
+ * 'serpentine' = rows alternating direction; 'center-out' = nearest the panel center first;
+ * 'bottom-up' = rows from the bottom edge.
+ */
+export type FillOrder = 'rows' | 'columns' | 'serpentine' | 'center-out' | 'bottom-up';
+
 export interface GridLayout {
   cols: number;
   rows: number;
   capacityPerPanel: number;
-  placements: Array<{ indexInPanel: number; x: number; y: number; size: number }>;
+  placements: Array<{
+    indexInPanel: number;
+    row: number;
+    col: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotated?: boolean;  // Art is turned 90° clockwise inside this cell
+  }>;
 }
 
 export function computeGridLayout(settings: PanelLayoutSettings): GridLayout {
-  const { panelWidthMm, panelHeightMm, cellSizeMm, marginMm, gutterMm } = settings;
+  const { panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, gutterMm } = settings;
+  const margin = resolveMargins(settings);
 
-  const usableW = panelWidthMm - marginMm * 2;
-  const usableH = panelHeightMm - marginMm * 2;
+  const usableW = panelWidthMm - margin.left - margin.right;
+  const usableH = panelHeightMm - margin.top - margin.bottom;
 
-  const cols = Math.floor((usableW + gutterMm) / (cellSizeMm + gutterMm));
-  const rows = Math.floor((usableH + gutterMm) / (cellSizeMm + gutterMm));
-  const capacityPerPanel = Math.max(0, cols * rows);
+  const cols = Math.floor((usableW + gutterMm) / (cellWidthMm + gutterMm));
+  const rows = Math.floor((usableH + gutterMm) / (cellHeightMm + gutterMm));
 
   const placements: GridLayout['placements'] = [];
   if (cols > 0 && rows > 0) {
     for (let r = 0; r < rows; r++) {
       for (let c = 0; c < cols; c++) {
         const indexInPanel = r * cols + c;
-        const x = marginMm + c * (cellSizeMm + gutterMm);
-        const y = marginMm + r * (cellSizeMm + gutterMm);
-        placements.push({ indexInPanel, x, y, size: cellSizeMm });
+        const x = margin.left + c * (cellWidthMm + gutterMm);
+        const y = margin.top + r * (cellHeightMm + gutterMm);
+        placements.push({ indexInPanel, row: r, col: c, x, y, width: cellWidthMm, height: cellHeightMm });
       }
     }
   }
 
-  return { cols, rows, capacityPerPanel, placements };
+  const usable = skipKeepOut(placements, settings.keepOut);
+  return { cols, rows, capacityPerPanel: usable.length, placements: usable };
+}
+
+/**
+ * Staggered (hexagonal) layout for round items: alternate rows are shifted by half a
+ * column pitch and rows sit closer together, at pitch * sqrt(3)/2.
+ * Square cells are treated as the circle's bounding box. Taller or wider cells (e.g. with
+ * a label strip) aren't round, so their rows keep the full cell height apart.
+ */
+export function computeHexGridLayout(settings: PanelLayoutSettings): GridLayout {
+  const { panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, gutterMm } = settings;
+  const margin = resolveMargins(settings);
+
+  const usableW = panelWidthMm - margin.left - margin.right;
+  const usableH = panelHeightMm - margin.top - margin.bottom;
+  const colPitch = cellWidthMm + gutterMm;
+  const isRound = Math.abs(cellWidthMm - cellHeightMm) < 1e-6;
+  const rowPitch = isRound ? colPitch * (Math.sqrt(3) / 2) : cellHeightMm + gutterMm;
+
+  const placements: GridLayout['placements'] = [];
+  if (cellWidthMm <= 0 || cellHeightMm <= 0 || usableW < cellWidthMm || usableH < cellHeightMm) {
+    return { cols: 0, rows: 0, capacityPerPanel: 0, placements };
+  }
+
+  const rows = Math.floor((usableH - cellHeightMm) / rowPitch) + 1;
+  let maxCols = 0;
+  for (let r = 0; r < rows; r++) {
+    const shift = r % 2 === 1 ? colPitch / 2 : 0;
+    const colsInRow = Math.floor((usableW - shift + gutterMm) / colPitch);
+    maxCols = Math.max(maxCols, colsInRow);
+    for (let c = 0; c < colsInRow; c++) {
+      placements.push({
+        indexInPanel: placements.length,
+        row: r,
+        col: c,
+        x: margin.left + shift + c * colPitch,
+        y: margin.top + r * rowPitch,
+        width: cellWidthMm,
+        height: cellHeightMm,
+      });
+    }
+  }
+
+  const usable = skipKeepOut(placements, settings.keepOut);
+  return { cols: maxCols, rows, capacityPerPanel: usable.length, placements: usable };
+}
+
+export function computePanelLayout(settings: PanelLayoutSettings): GridLayout {
+  const layout = settings.layoutMode === 'hex' ? computeHexGridLayout(settings) : computeGridLayout(settings);
+  const order = settings.fillOrder ?? 'rows';
+  if (order === 'rows') return layout;
+  return { ...layout, placements: orderPlacements(layout.placements, order, settings) };
+}
+
+/**
+ * Reorder placements (and renumber indexInPanel) for a fill order. Ties keep row-major order.
+ */
+export function orderPlacements(
+  placements: GridLayout['placements'],
+  order: FillOrder,
+  panel: { panelWidthMm: number; panelHeightMm: number }
+): GridLayout['placements'] {
+  const cx = panel.panelWidthMm / 2;
+  const cy = panel.panelHeightMm / 2;
+  const key = (p: GridLayout['placements'][number]): number[] => {
+    switch (order) {
+      case 'columns':
+        return [p.col, p.row];
+      case 'serpentine':
+        return [p.row, p.row % 2 === 1 ? -p.x : p.x];
+      case 'center-out':
+        return [Math.round(Math.hypot(p.x + p.width / 2 - cx, p.y + p.height / 2 - cy) * 1000), p.row, p.col];
+      case 'bottom-up':
+        return [-p.row, p.x];
+      default:
+        return [p.row, p.x];
+    }
+  };
+
+  const keyed = placements.map((p) => ({ p, k: key(p) }));
+  keyed.sort((a, b) => {
+    for (let i = 0; i < a.k.length; i++) {
+      if (a.k[i] !== b.k[i]) return a.k[i]! - b.k[i]!;
+    }
+    return a.p.indexInPanel - b.p.indexInPanel;
+  });
+  return keyed.map(({ p }, indexInPanel) => ({ ...p, indexInPanel }));
+}
+
+export type OrientationMode = 'none' | 'rotate-90' | 'auto';
+
+export interface OrientedGridLayout extends GridLayout {
+  rotated: boolean;
+}
+
+/**
+ * Grid layout with every item optionally turned 90°. rotatedCell is the cell size needed
+ * for the turned art (labels stay horizontal, so it isn't simply width/height swapped).
+ * 'auto' uses the rotated grid only when it fits more items per panel.
+ */
+export function computeOrientedGridLayout(
+  settings: PanelLayoutSettings,
+  rotatedCell: { cellWidthMm: number; cellHeightMm: number },
+  orientation: OrientationMode
+): OrientedGridLayout {
+  const upright = computePanelLayout(settings);
+  if (orientation === 'none') return { ...upright, rotated: false };
+
+  const turned = computePanelLayout({ ...settings, ...rotatedCell });
+  if (orientation === 'auto' && turned.capacityPerPanel <= upright.capacityPerPanel) {
+    return { ...upright, rotated: false };
+  }
+  return { ...turned, placements: turned.placements.map((p) => ({ ...p, rotated: true })), rotated: true };
+}
+
+/**
+ * Cells per panel as computePanelLayout would count them, without building placements, for
+ * sweeping many panel sizes. Keep-out zones are not taken into account.
+ */
+export function computePanelCapacity(settings: PanelLayoutSettings): number {
+  const { panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, gutterMm } = settings;
+  const margin = resolveMargins(settings);
+  const usableW = panelWidthMm - margin.left - margin.right;
+  const usableH = panelHeightMm - margin.top - margin.bottom;
+  const colPitch = cellWidthMm + gutterMm;
+
+  if (settings.layoutMode !== 'hex') {
+    const cols = Math.floor((usableW + gutterMm) / colPitch);
+    const rows = Math.floor((usableH + gutterMm) / (cellHeightMm + gutterMm));
+    return cols > 0 && rows > 0 ? cols * rows : 0;
+  }
+
+  if (cellWidthMm <= 0 || cellHeightMm <= 0 || usableW < cellWidthMm || usableH < cellHeightMm) return 0;
+  const isRound = Math.abs(cellWidthMm - cellHeightMm) < 1e-6;
+  const rowPitch = isRound ? colPitch * (Math.sqrt(3) / 2) : cellHeightMm + gutterMm;
+  const rows = Math.floor((usableH - cellHeightMm) / rowPitch) + 1;
+  const evenCols = Math.max(0, Math.floor((usableW + gutterMm) / colPitch));
+  const oddCols = Math.max(0, Math.floor((usableW - colPitch / 2 + gutterMm) / colPitch));
+  return Math.ceil(rows / 2) * evenCols + Math.floor(rows / 2) * oddCols;
+}
+
+/**
+ * computePanelCapacity for the cell as computeOrientedGridLayout would turn it.
+ */
+export function computeOrientedCapacity(
+  settings: PanelLayoutSettings,
+  rotatedCell: { cellWidthMm: number; cellHeightMm: number },
+  orientation: OrientationMode
+): number {
+  const upright = computePanelCapacity(settings);
+  if (orientation === 'none') return upright;
+  const turned = computePanelCapacity({ ...settings, ...rotatedCell });
+  return orientation === 'auto' ? Math.max(upright, turned) : turned;
 }
 
 export function computePanelCount(itemCount: number, capacityPerPanel: number): number {
   if (capacityPerPanel <= 0) return 0;
   return Math.ceil(itemCount / capacityPerPanel);
 }
+
+/**
+ * How items are spread over the panels: 'fill' fills each panel before starting the next,
+ * leaving the remainder on a compact last panel; 'balanced' gives every panel the same
+ * count to within one (52 items at 25 per panel: 18/17/17 instead of 25/25/2).
+ */
+export type Distribution = 'fill' | 'balanced';
+
+/**
+ * Number of items on each panel. Capacity is one number for every panel, or a list for the
+ * first panels (e.g. remnants with keep-out zones) whose last entry repeats for the rest.
+ */
+export function distributeItems(itemCount: number, capacityPerPanel: number | number[], distribution: Distribution = 'fill'): number[] {
+  const capacities = typeof capacityPerPanel === 'number' ? [capacityPerPanel] : capacityPerPanel;
+  const capacityOf = (i: number) => Math.max(0, capacities[Math.min(i, capacities.length - 1)] ?? 0);
+
+  // Filled in order first; this also gives the panel count
+  const filled: number[] = [];
+  let remaining = itemCount;
+  for (let i = 0; remaining > 0; i++) {
+    // Past the listed panels every panel is the same: stop if they can't hold anything
+    if (i >= capacities.length - 1 && capacityOf(i) <= 0) break;
+    const count = Math.min(capacityOf(i), remaining);
+    filled.push(count);
+    remaining -= count;
+  }
+  if (distribution !== 'balanced') return filled;
+
+  // Same panels, each taking an even share of what's left (up to its capacity), but never
+  // leaving more than the later panels can hold
+  const counts: number[] = [];
+  remaining = itemCount - remaining;
+  for (let i = 0; i < filled.length; i++) {
+    let laterCapacity = 0;
+    for (let j = i + 1; j < filled.length; j++) laterCapacity += capacityOf(j);
+    const share = Math.min(capacityOf(i), Math.ceil(remaining / (filled.length - i)));
+    const count = Math.max(share, remaining - laterCapacity);
+    counts.push(count);
+    remaining -= count;
+  }
+  return counts;
+}
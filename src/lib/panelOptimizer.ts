@@ -0,0 +1,147 @@
+import type { PanelMargins } from './panelLayout';
+
+/**
+ * Search panel sizes for the least material: every size is laid out with the caller's grid
+ * settings and scored by total sheet area or by sheet count.
+ */
+
+export interface PanelSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+export interface PanelSizeCandidate extends PanelSize {
+  capacityPerPanel: number;
+  panelCount: number;
+  totalAreaMm2: number;    // panelCount * width * height
+  utilization: number;     // Art area / total sheet area (0..1)
+  stock: boolean;          // Taken from the stock-size list
+}
+
+export interface PanelOptimizeOptions {
+  maxWidthMm: number;      // Laser bed size
+  maxHeightMm: number;
+  minSideMm?: number;      // Smallest panel side worth handling (default 0); tiny panels always waste least
+  goal: 'area' | 'sheets'; // Least total sheet area, or fewest sheets (then least area)
+  stockSizes?: PanelSize[];  // Only these sizes (either way round) when stockOnly is set
+  stockOnly?: boolean;
+  roundUpMm?: number;      // Round free sizes up to a multiple of this (default 1)
+  limit?: number;          // Candidates returned (default 5)
+}
+
+export interface PanelOptimizeInput {
+  itemCount: number;
+  itemAreaMm2: number;     // Art area of one item, for utilization
+  cells: PanelSize[];      // Cell sizes the layout can use (upright and turned)
+  gutterMm: number;
+  margins: PanelMargins;
+  staggered: boolean;      // Hex layout: rows may be shifted by half a pitch
+  capacityFor: (widthMm: number, heightMm: number) => number;  // Called for every size tried: keep it cheap
+}
+
+/**
+ * Sizes worth trying along one axis: where another row/column just fits. Staggered layouts
+ * also try half a pitch more across (for the shifted rows) and √3/2-pitched rows down.
+ * Capacity only changes at these sizes.
+ */
+function tightSizes(cellSizes: number[], gutterMm: number, edgesMm: number, maxMm: number, stagger: 'none' | 'across' | 'down'): number[] {
+  const sizes = new Set<number>();
+  for (const cell of cellSizes) {
+    if (cell <= 0) continue;
+    const pitch = cell + gutterMm;
+    const pitches = stagger === 'down' ? [pitch, pitch * (Math.sqrt(3) / 2)] : [pitch];
+    for (const p of pitches) {
+      for (let k = 0; edgesMm + cell + k * p <= maxMm + 1e-6; k++) {
+        sizes.add(edgesMm + cell + k * p);
+        if (stagger === 'across') sizes.add(edgesMm + cell + k * p + p / 2);
+      }
+    }
+  }
+  return Array.from(sizes).filter((s) => s <= maxMm + 1e-6);
+}
+
+export function optimizePanelSize(input: PanelOptimizeInput, options: PanelOptimizeOptions): PanelSizeCandidate[] {
+  if (input.itemCount <= 0) return [];
+  const round = Math.max(1e-6, options.roundUpMm ?? 1);
+  const roundUp = (mm: number) => Math.ceil(mm / round - 1e-6) * round;
+
+  // Ties go to fewer sheets, then to the squarer sheet
+  const squareness = (c: PanelSize) => Math.max(c.widthMm, c.heightMm) / Math.min(c.widthMm, c.heightMm);
+  const compare = (a: PanelSizeCandidate, b: PanelSizeCandidate) =>
+    options.goal === 'sheets'
+      ? a.panelCount - b.panelCount || a.totalAreaMm2 - b.totalAreaMm2 || squareness(a) - squareness(b)
+      : a.totalAreaMm2 - b.totalAreaMm2 || a.panelCount - b.panelCount || squareness(a) - squareness(b);
+
+  // Only the best `limit` are kept while sweeping; a fine grid of sizes can run to a million
+  const limit = Math.max(1, options.limit ?? 5);
+  const candidates: PanelSizeCandidate[] = [];
+  const consider = (size: PanelSize & { stock: boolean }) => {
+    const worst = candidates.length >= limit ? candidates[candidates.length - 1]! : null;
+    // One sheet of this size already uses more area than the worst kept candidate
+    if (worst && options.goal === 'area' && size.widthMm * size.heightMm > worst.totalAreaMm2) return;
+
+    const capacityPerPanel = input.capacityFor(size.widthMm, size.heightMm);
+    if (capacityPerPanel <= 0) return;
+    const panelCount = Math.ceil(input.itemCount / capacityPerPanel);
+    const totalAreaMm2 = panelCount * size.widthMm * size.heightMm;
+    const candidate = {
+      ...size,
+      capacityPerPanel,
+      panelCount,
+      totalAreaMm2,
+      utilization: Math.min(1, (input.itemCount * input.itemAreaMm2) / totalAreaMm2),
+    };
+    if (worst && compare(candidate, worst) >= 0) return;
+    const at = candidates.findIndex((c) => compare(candidate, c) < 0);
+    candidates.splice(at < 0 ? candidates.length : at, 0, candidate);
+    if (candidates.length > limit) candidates.pop();
+  };
+
+  const stockKeys = new Set<string>();
+  for (const stock of options.stockSizes ?? []) {
+    for (const [w, h] of [[stock.widthMm, stock.heightMm], [stock.heightMm, stock.widthMm]] as const) {
+      const key = `${w}x${h}`;
+      if (stockKeys.has(key) || !(w > 0 && h > 0 && w <= options.maxWidthMm && h <= options.maxHeightMm)) continue;
+      stockKeys.add(key);
+      consider({ widthMm: w, heightMm: h, stock: true });
+    }
+  }
+  if (!options.stockOnly) {
+    const widths = tightSizes(
+      input.cells.map((c) => c.widthMm),
+      input.gutterMm,
+      input.margins.left + input.margins.right,
+      options.maxWidthMm,
+      input.staggered ? 'across' : 'none'
+    );
+    const heights = tightSizes(
+      input.cells.map((c) => c.heightMm),
+      input.gutterMm,
+      input.margins.top + input.margins.bottom,
+      options.maxHeightMm,
+      input.staggered ? 'down' : 'none'
+    );
+    // Below the smallest side, grow to it (the extra room may fit another row)
+    const minSide = options.minSideMm ?? 0;
+    const roundedHeights = Array.from(new Set(heights.map((mm) => roundUp(Math.max(mm, minSide)))));
+    for (const w of new Set(widths.map((mm) => roundUp(Math.max(mm, minSide))))) {
+      for (const h of roundedHeights) {
+        if (w <= options.maxWidthMm && h <= options.maxHeightMm && !stockKeys.has(`${w}x${h}`)) consider({ widthMm: w, heightMm: h, stock: false });
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Parse a stock-size list such as "300x300, 600 x 400; 24x12". Unreadable entries are skipped.
+ */
+export function parseStockSizes(text: string): PanelSize[] {
+  const sizes: PanelSize[] = [];
+  for (const m of text.matchAll(/(\d+(?:\.\d+)?)\s*[x×*]\s*(\d+(?:\.\d+)?)/gi)) {
+    const widthMm = parseFloat(m[1]!);
+    const heightMm = parseFloat(m[2]!);
+    if (widthMm > 0 && heightMm > 0) sizes.push({ widthMm, heightMm });
+  }
+  return sizes;
+}
@@ -1,8 +1,29 @@
 import { readFileFromMap } from './fsScan';
+import { getBasename } from './pathUtils';
 import type { ScannedSvgFile } from './fsScan';
 import { parseSvgString } from './svgParse';
-import { DEFAULT_FONT_FAMILY, calculateTextFit, escapeXml } from './textFit';
-import { computeGridLayout, computePanelCount } from './panelLayout';
+import { sanitizeSvgText } from './svgSanitize';
+import { DEFAULT_FONT_FAMILY, calculateArcTextFit, calculateTextFit, escapeXml } from './textFit';
+import { fitTextOutline, fitTextOutlineOnArc, type OutlineFont } from './fontOutline';
+import { DEFAULT_STROKE_FONT, fitStrokeText, fitStrokeTextOnArc } from './strokeFonts';
+import type { LabelArc } from './arcText';
+import { resolvePositionTokens } from './labelTemplate';
+import { nestPolygons, nestRectangles, type NestPoint, type NestResult } from './nesting';
+import {
+  computeOrientedGridLayout,
+  countPanelsWithOwnKeepOut,
+  distributeItems,
+  keepOutForPanel,
+  resolveMargins,
+  type Distribution,
+  type FillOrder,
+  type GridLayout,
+  type KeepOutShape,
+  type KeepOutZone,
+  type LayoutMode,
+  type OrientationMode,
+  type OrientedGridLayout,
+} from './panelLayout';
 
 export interface PanelTextSettings {
   fontFamily: string;
@@ -18,20 +39,161 @@ export interface PanelContentSettings {
 export interface PanelBuildSettings {
   panelWidthMm: number;
   panelHeightMm: number;
-  cellSizeMm: number;
-  artWidthMm?: number;   // Exact art width (if provided, used instead of cellSizeMm for artBox)
-  artHeightMm?: number;  // Exact art height (if provided, used instead of cellSizeMm for artBox)
+  cellWidthMm: number;
+  cellHeightMm: number;
+  artWidthMm?: number;   // Exact art width (if provided, used instead of the cell size for artBox)
+  artHeightMm?: number;  // Exact art height (if provided, used instead of the cell size for artBox)
   marginMm: number;
+  marginTopMm?: number;  // Per-edge margins override marginMm (e.g. clamps on only some sides)
+  marginRightMm?: number;
+  marginBottomMm?: number;
+  marginLeftMm?: number;
   gutterMm: number;
-  labelHeightMm: number;
+  layoutMode?: LayoutMode;        // 'hex' staggers alternate rows for round items (default: 'grid')
+  fillOrder?: FillOrder;          // Order items fill the grid cells (default: 'rows'); ignored when nesting
+  distribution?: Distribution;    // 'balanced' spreads items evenly over the panels (default: 'fill'); ignored when nesting
+  targetPanelCount?: number;      // Shrink the art until the whole job fits this many panels (0 = off); grid layouts only
+  keepOutZones?: KeepOutZone[];   // Unusable areas (remnant sheets), on every panel or on one
+  orientation?: OrientationMode;  // Turn the art 90° ('auto' = only when more fit per panel); labels stay horizontal
+  labelHeightMm: number;  // Label strip size: height for 'below'/'above', width for 'right', text height for overlay/back
   paddingMm: number;
   showCellBorders: boolean;
+  labelPlacement?: LabelPlacement;  // Where labels go relative to the art (default: 'below')
+  labelArcOffsetMm?: number;  // 'arc': gap between the cut line and the text's outer edge (default 1; negative = outside)
+  labelArcStartDeg?: number;  // 'arc': start of the allowed span, clockwise from 12 o'clock (default 120)
+  labelArcSpanDeg?: number;   // 'arc': angular length the text may use; text is centered and shrunk to fit (default 120)
   removeOrnamentHole?: boolean;
   addRoundBacker?: boolean;
   roundBackerStrokeWidth?: number;
   fontFamily?: string;
   labelColor?: string;
+  labelRenderMode?: 'text' | 'outline' | 'single-line';  // Default: 'outline' when labelOutlineFont is set, else 'text'
+  labelOutlineFont?: OutlineFont | null;  // Font used by 'outline' mode to emit labels as <path> outlines
+  strokeFontId?: string;                  // Bundled single-line font used by 'single-line' mode
+  labelStrokeWidthMm?: number;            // Stroke width for 'single-line' labels
+  labelMaxLines?: number;                 // Wrap labels into up to this many lines (default 1); newlines always break
+  labelSizing?: 'fit' | 'uniform-panel' | 'uniform-job';  // Fit each label, or one size for a whole panel / job
+  labelMinFontSizeMm?: number;            // Optional clamp; labels that can't fit at this size are reported
+  labelMaxFontSizeMm?: number;            // Optional clamp so short labels don't print huge
   layerSettings?: LayerConfig[] | null;  // null = passthrough (no processing)
+  invalidFileMode?: 'skip' | 'placeholder';  // What to do with files that fail to load (default: skip)
+}
+
+/**
+ * 'below' / 'above' / 'right' reserve a strip of the cell for the label.
+ * 'overlay' centers the label inside the art; 'back-panel' engraves it on extra mirrored panels;
+ * 'arc' curves it along the rim of round art, inside the detected cut line.
+ */
+export type LabelPlacement = 'below' | 'above' | 'right' | 'overlay' | 'back-panel' | 'arc';
+
+/**
+ * Cell size for art of the given size: padding on every side plus the label strip
+ * (below/above add height, right adds width, overlay/back/arc share the art area).
+ */
+export function getCellSizeMm(
+  artWidthMm: number,
+  artHeightMm: number,
+  paddingMm: number,
+  placement: LabelPlacement,
+  labelHeightMm: number
+): { widthMm: number; heightMm: number } {
+  return {
+    widthMm: artWidthMm + paddingMm * 2 + (placement === 'right' ? labelHeightMm : 0),
+    heightMm: artHeightMm + paddingMm * 2 + (placement === 'below' || placement === 'above' ? labelHeightMm : 0),
+  };
+}
+
+/**
+ * Cell size for art turned 90°: the art's width and height swap, the label space doesn't.
+ * Without exact art dimensions the whole cell is swapped.
+ */
+function getRotatedCellSize(settings: PanelBuildSettings): { cellWidthMm: number; cellHeightMm: number } {
+  if (settings.artWidthMm === undefined || settings.artHeightMm === undefined) {
+    return { cellWidthMm: settings.cellHeightMm, cellHeightMm: settings.cellWidthMm };
+  }
+  const extraW = settings.cellWidthMm - settings.artWidthMm;
+  const extraH = settings.cellHeightMm - settings.artHeightMm;
+  return { cellWidthMm: settings.artHeightMm + extraW, cellHeightMm: settings.artWidthMm + extraH };
+}
+
+/**
+ * Grid for one panel (0-based index), skipping its keep-out zones; without an index only the
+ * zones on every panel apply.
+ */
+function computeGrid(settings: PanelBuildSettings, panelIndex?: number) {
+  return computeOrientedGridLayout(
+    {
+      panelWidthMm: settings.panelWidthMm,
+      panelHeightMm: settings.panelHeightMm,
+      cellWidthMm: settings.cellWidthMm,
+      cellHeightMm: settings.cellHeightMm,
+      marginMm: settings.marginMm,
+      marginTopMm: settings.marginTopMm,
+      marginRightMm: settings.marginRightMm,
+      marginBottomMm: settings.marginBottomMm,
+      marginLeftMm: settings.marginLeftMm,
+      gutterMm: settings.gutterMm,
+      layoutMode: settings.layoutMode,
+      fillOrder: settings.fillOrder,
+      keepOut: keepOutForPanel(settings.keepOutZones, panelIndex),
+    },
+    getRotatedCellSize(settings),
+    settings.orientation ?? 'none'
+  );
+}
+
+/**
+ * Grids for the panels with their own keep-out zones, then the grid every later panel uses.
+ * Pick a panel's grid with grids[Math.min(panelIndex, grids.length - 1)].
+ */
+export function computePanelGrids(settings: PanelBuildSettings): OrientedGridLayout[] {
+  const own = countPanelsWithOwnKeepOut(settings.keepOutZones);
+  return [...Array.from({ length: own }, (_, i) => computeGrid(settings, i)), computeGrid(settings)];
+}
+
+/**
+ * Settings with the art (and its cells) scaled so itemCount items fit on targetPanelCount panels,
+ * and the panel grids they lay out (see computePanelGrids).
+ * Art is only ever shrunk; scale is null when no size fits (e.g. the label strips alone are too
+ * big), in which case the settings are returned unchanged.
+ */
+export function fitArtToPanelCount(
+  settings: PanelBuildSettings,
+  itemCount: number
+): { scale: number | null; settings: PanelBuildSettings; grids: OrientedGridLayout[] } {
+  const target = Math.floor(settings.targetPanelCount ?? 0);
+  const artW = settings.artWidthMm;
+  const artH = settings.artHeightMm;
+  if (target <= 0 || itemCount <= 0 || artW === undefined || artH === undefined || artW <= 0 || artH <= 0) {
+    return { scale: 1, settings, grids: computePanelGrids(settings) };
+  }
+
+  const scaled = (scale: number): PanelBuildSettings => ({
+    ...settings,
+    artWidthMm: artW * scale,
+    artHeightMm: artH * scale,
+    cellWidthMm: settings.cellWidthMm - artW + artW * scale,
+    cellHeightMm: settings.cellHeightMm - artH + artH * scale,
+  });
+  const fits = (scale: number) => {
+    const grids = computePanelGrids(scaled(scale));
+    let capacity = 0;
+    for (let i = 0; i < target; i++) capacity += grids[Math.min(i, grids.length - 1)]!.capacityPerPanel;
+    return capacity >= itemCount;
+  };
+
+  if (fits(1)) return { scale: 1, settings, grids: computePanelGrids(settings) };
+  // Smallest useful size: a hundredth of the original
+  if (!fits(0.01)) return { scale: null, settings, grids: computePanelGrids(settings) };
+
+  let lo = 0.01;
+  let hi = 1;
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+  return { scale: lo, settings: scaled(lo), grids: computePanelGrids(scaled(lo)) };
 }
 
 export interface LayerConfig {
@@ -65,47 +227,141 @@ export const LAYER_PRESETS = {
   ],
 };
 
+export interface FileBuildReport {
+  path: string;
+  status: 'ok' | 'warning' | 'error';
+  warnings: string[];
+  errors: string[];
+  skipped: boolean;  // true when the file was left out of the panels
+}
+
+export interface BuildReport {
+  files: FileBuildReport[];  // One entry per unique selected file, in selection order
+  warningCount: number;
+  errorCount: number;
+}
+
 export interface BuiltPanels {
-  panelSvgs: string[];
+  panelSvgs: string[];   // Front panels, followed by the back panels when labelPlacement is 'back-panel'
+  panelItems: Array<Array<{ path: string; label: string }>>;  // Items placed on each panel, in placement order
+  backPanelCount: number;
+  report: BuildReport;
   cols: number;
   rows: number;
   capacityPerPanel: number;
+  utilization?: number[];  // Contour nesting: cut-outline area / sheet area per front panel
 }
 
 type Bounds = { x: number; y: number; width: number; height: number };
 
+/**
+ * A cell on a panel. Nested layouts give every cell its own art size.
+ */
+type Placement = GridLayout['placements'][number] & { artWidthMm?: number; artHeightMm?: number };
+
+// Convert px/pt/unitless to mm using 72 DPI (Adobe Illustrator / xTool standard)
+// Note: Different tools use different DPIs (Illustrator=72, Inkscape=96, old SVG spec=90)
+// Using 72 DPI matches xTool's interpretation of Adobe-created SVGs
+const PIXELS_TO_MM = 25.4 / 72;
+
+// Placeholder id prefix baked into cached processed content. Each cell swaps it for its
+// own prefix so the expensive DOM processing still runs once per file.
+const CELL_ID_PREFIX_PLACEHOLDER = 'svgpanel-cell-ids-';
+
 /**
  * Build panel SVGs from selected files.
  * @param selected - Array of scanned SVG files
- * @param settings - Panel build settings
+ * @param requestedSettings - Panel build settings (art shrinks first when targetPanelCount is set)
  * @param fileMap - Map of file paths to File objects for reading content
  */
 export async function buildPanelSvgs(
   selected: ScannedSvgFile[],
-  settings: PanelBuildSettings,
+  requestedSettings: PanelBuildSettings,
   fileMap: Map<string, File>
 ): Promise<BuiltPanels> {
+  const nesting = requestedSettings.layoutMode === 'nest' || requestedSettings.layoutMode === 'contour';
+  const settings = nesting ? requestedSettings : fitArtToPanelCount(requestedSettings, selected.length).settings;
   const fontFamily = settings.fontFamily || DEFAULT_FONT_FAMILY;
   const labelColor = settings.labelColor || '#000000';
   const removeOrnamentHole = settings.removeOrnamentHole ?? false;
   const addRoundBacker = settings.addRoundBacker ?? false;
   const roundBackerStrokeWidth = settings.roundBackerStrokeWidth ?? 0.5;
   const layerSettings = settings.layerSettings ?? DEFAULT_LAYER_SETTINGS;
+  const labelRenderMode = settings.labelRenderMode ?? (settings.labelOutlineFont ? 'outline' : 'text');
+  const strokeFontId = settings.strokeFontId ?? DEFAULT_STROKE_FONT;
+  const labelStrokeWidth = settings.labelStrokeWidthMm ?? 0.2;
+  const labelMaxLines = Math.max(1, Math.floor(settings.labelMaxLines ?? 1));
+
+  const grids = computePanelGrids(settings);
+  const grid = grids[grids.length - 1]!;
+
+  const invalidFileMode = settings.invalidFileMode ?? 'skip';
+
+  type CacheEntry = {
+    viewBox: { x: number; y: number; width: number; height: number };
+    innerContent: string;
+    svgText: string;
+    innerContentBounds?: Bounds;
+    processedContent?: string;
+    processedBounds?: Bounds;
+    processingKey?: string;
+    cutLineBbox?: Bounds | null;  // Measured lazily for arc labels; null when the file has no cut line
+    cutLineOutline?: NestPoint[] | null;  // Measured lazily for contour nesting
+  };
+  const cache = new Map<string, CacheEntry>();
+
+  // Per-file report, keyed by path. Problems with one file never abort the whole build.
+  const reportByPath = new Map<string, FileBuildReport>();
+  const getReport = (path: string): FileBuildReport => {
+    let entry = reportByPath.get(path);
+    if (!entry) {
+      entry = { path, status: 'ok', warnings: [], errors: [], skipped: false };
+      reportByPath.set(path, entry);
+    }
+    return entry;
+  };
+  const addWarning = (path: string, message: string) => {
+    const entry = getReport(path);
+    if (!entry.warnings.includes(message)) entry.warnings.push(message);
+  };
+  const describeError = (e: unknown) => (e instanceof Error ? e.message : String(e));
 
-  const grid = computeGridLayout({
-    panelWidthMm: settings.panelWidthMm,
-    panelHeightMm: settings.panelHeightMm,
-    cellSizeMm: settings.cellSizeMm,
-    marginMm: settings.marginMm,
-    gutterMm: settings.gutterMm,
-  });
-
-  const panelCount = computePanelCount(selected.length, grid.capacityPerPanel);
-  if (panelCount <= 0) {
-    return { panelSvgs: [], cols: grid.cols, rows: grid.rows, capacityPerPanel: grid.capacityPerPanel };
+  // Load, sanitize and parse every unique file up front so bad files are known before layout.
+  for (const file of selected) {
+    if (reportByPath.has(file.path)) continue;
+    const report = getReport(file.path);
+    try {
+      // Read file content from the fileMap (browser File API), then strip active content
+      // so nothing executable reaches the preview or the exported panels
+      const clean = sanitizeSvgText(await readFileFromMap(fileMap, file.path));
+      if (clean.removed.length > 0) {
+        addWarning(file.path, `Removed unsafe content: ${clean.removed.join(', ')}`);
+      }
+      const svgText = clean.svgText;
+      const base = parseSvgString(svgText);
+      cache.set(file.path, { ...base, svgText });
+    } catch (e) {
+      report.errors.push(describeError(e));
+      report.skipped = invalidFileMode === 'skip';
+    }
   }
 
+  const placeable = invalidFileMode === 'skip' ? selected.filter((f) => cache.has(f.path)) : selected;
+
+  const finishReport = (): BuildReport => {
+    const files = Array.from(reportByPath.values());
+    for (const entry of files) {
+      entry.status = entry.errors.length > 0 ? 'error' : entry.warnings.length > 0 ? 'warning' : 'ok';
+    }
+    return {
+      files,
+      warningCount: files.filter((f) => f.status === 'warning').length,
+      errorCount: files.filter((f) => f.status === 'error').length,
+    };
+  };
+
   const panelSvgs: string[] = [];
+  const panelItems: BuiltPanels['panelItems'] = [];
 
   // Build cache key from all processing options
   const processingKey = JSON.stringify({
@@ -115,23 +371,280 @@ export async function buildPanelSvgs(
     backerStroke: roundBackerStrokeWidth,
   });
 
-  const cache = new Map<
-    string,
-    {
-      viewBox: { x: number; y: number; width: number; height: number };
-      innerContent: string;
-      svgText: string;
-      innerContentBounds?: Bounds;
-      processedContent?: string;
-      processedBounds?: Bounds;
-      processingKey?: string;
+  const labelStyle: LabelStyle = {
+    renderMode: labelRenderMode,
+    fontFamily,
+    color: labelColor,
+    outlineFont: settings.labelOutlineFont ?? null,
+    strokeFontId,
+    strokeWidth: labelStrokeWidth,
+    maxLines: labelMaxLines,
+  };
+
+  /**
+   * Processed content and the bounds used for "zoom-to-content", computed once per file.
+   */
+  const getArt = (path: string, parsed: CacheEntry): { content: string; bounds: Bounds } => {
+    const vb = parsed.viewBox;
+
+    // ALWAYS process SVGs to inline CSS styles and prevent class name conflicts.
+    // When multiple SVGs are combined into one panel, their <style> blocks can have
+    // conflicting class definitions (e.g., .st0, .st1 mean different colors in each file).
+    // By always processing, we remove <style> blocks and inline the colors directly on elements.
+    // The layerSettings, removeOrnamentHole, and addRoundBacker options are handled inside processLayersForPanel.
+    if (!parsed.processedContent || parsed.processingKey !== processingKey) {
+      try {
+        parsed.processedContent = processLayersForPanel(parsed.svgText, layerSettings, {
+          removeOrnamentHole,
+          addRoundBacker,
+          roundBackerStrokeWidth,
+          idPrefix: CELL_ID_PREFIX_PLACEHOLDER,
+        });
+      } catch (e) {
+        // Fall back to the unprocessed content rather than failing the whole panel; its ids
+        // still need the per-cell prefix or they collide with the other copies
+        addWarning(path, `Layer processing failed, using original content: ${describeError(e)}`);
+        parsed.processedContent = prefixContentIds(parsed.innerContent, CELL_ID_PREFIX_PLACEHOLDER);
+      }
+      parsed.processedBounds = measureInnerContentBounds(vb, parsed.processedContent) ?? undefined;
+      if (!parsed.processedBounds) {
+        addWarning(path, 'Could not measure content bounds; scaled using the viewBox instead');
+      }
+      parsed.processingKey = processingKey;
     }
-  >();
+
+    // Default bounds: measure the original content once (cached), then fall back to viewBox.
+    let bounds = parsed.processedBounds ?? null;
+    if (!bounds) {
+      if (!parsed.innerContentBounds) {
+        parsed.innerContentBounds = measureInnerContentBounds(vb, parsed.innerContent) ?? undefined;
+      }
+      bounds = parsed.innerContentBounds ?? null;
+    }
+    return { content: parsed.processedContent, bounds: bounds ?? vb };
+  };
+
+  /**
+   * Outlines a nested cell occupies, in cell coordinates: the file's cut line (or its art
+   * bounds without one) fitted like the art itself, plus the label strip if the label has one.
+   */
+  const getCellOutlines = (
+    file: ScannedSvgFile,
+    item: { artW: number; artH: number; width: number; height: number; rotatedWidth?: number; rotatedHeight?: number },
+    rotated: boolean
+  ): NestPoint[][] => {
+    const regions = computeCellRegions(
+      {
+        indexInPanel: 0,
+        row: 0,
+        col: 0,
+        x: 0,
+        y: 0,
+        width: rotated ? item.rotatedWidth ?? item.height : item.width,
+        height: rotated ? item.rotatedHeight ?? item.width : item.height,
+        rotated,
+        artWidthMm: rotated ? item.artH : item.artW,
+        artHeightMm: rotated ? item.artW : item.artH,
+      },
+      settings
+    );
+    const corners = (b: Bounds): NestPoint[] => [
+      { x: b.x, y: b.y },
+      { x: b.x + b.width, y: b.y },
+      { x: b.x + b.width, y: b.y + b.height },
+      { x: b.x, y: b.y + b.height },
+    ];
+    const placement = settings.labelPlacement ?? 'below';
+    const strip = (placement === 'below' || placement === 'above' || placement === 'right') && settings.labelHeightMm > 0;
+    const labelOutlines = strip ? [corners(regions.labelBox)] : [];
+
+    const parsed = cache.get(file.path);
+    if (!parsed) return [corners(regions.artBox), ...labelOutlines];
+    const art = getArt(file.path, parsed);
+    if (parsed.cutLineOutline === undefined) {
+      parsed.cutLineOutline = measureCutLineOutline(parsed.svgText);
+      if (!parsed.cutLineOutline) addWarning(file.path, 'No blue cut line found; nested by its art bounds');
+    }
+    const outline = parsed.cutLineOutline ?? corners(art.bounds);
+    const bounds = rotated ? rotateBounds90(art.bounds) : art.bounds;
+    const { scale, x, y } = fitArtToBox(bounds, regions.artBox);
+    const artOutline = outline.map((p) => {
+      const q = rotated ? { x: -p.y, y: p.x } : p;
+      return { x: x + (q.x - bounds.x) * scale, y: y + (q.y - bounds.y) * scale };
+    });
+    return [artOutline, ...labelOutlines];
+  };
+
+  // Assign items to panels: fixed cells in order, or nested by each file's measured size
+  const panelFiles: ScannedSvgFile[][] = [];
+  const panelPlacements: Placement[][] = [];
+  let capacityPerPanel = grid.capacityPerPanel;
+  let utilization: number[] | undefined;
+  if (settings.layoutMode === 'nest' || settings.layoutMode === 'contour') {
+    const items = placeable.map((file, id) => {
+      const parsed = cache.get(file.path);
+      // Unreadable files (placeholder mode) keep the configured art size
+      const bounds = parsed ? getArt(file.path, parsed).bounds : null;
+      const artW = bounds ? bounds.width * PIXELS_TO_MM : settings.artWidthMm ?? settings.cellWidthMm;
+      const artH = bounds ? bounds.height * PIXELS_TO_MM : settings.artHeightMm ?? settings.cellHeightMm;
+      const cell = getCellSizeMm(artW, artH, settings.paddingMm, settings.labelPlacement ?? 'below', settings.labelHeightMm);
+      const turned = getCellSizeMm(artH, artW, settings.paddingMm, settings.labelPlacement ?? 'below', settings.labelHeightMm);
+      const allowRotation = (settings.orientation ?? 'none') !== 'none';
+      return {
+        id,
+        artW,
+        artH,
+        width: cell.widthMm,
+        height: cell.heightMm,
+        rotatedWidth: allowRotation ? turned.widthMm : undefined,
+        rotatedHeight: allowRotation ? turned.heightMm : undefined,
+      };
+    });
+    const sheet = {
+      width: settings.panelWidthMm,
+      height: settings.panelHeightMm,
+      margins: resolveMargins(settings),
+      spacingMm: settings.gutterMm,
+      keepOut: settings.keepOutZones,
+    };
+    let nested: NestResult;
+    if (settings.layoutMode === 'contour') {
+      const contour = nestPolygons(
+        items.map((item) => ({
+          ...item,
+          polygons: getCellOutlines(placeable[item.id]!, item, false),
+          rotatedPolygons: item.rotatedWidth !== undefined ? getCellOutlines(placeable[item.id]!, item, true) : undefined,
+        })),
+        sheet
+      );
+      nested = contour;
+      utilization = contour.utilization;
+    } else {
+      nested = nestRectangles(items, sheet);
+    }
+    for (const id of nested.unplaced) {
+      const file = placeable[id]!;
+      getReport(file.path).errors.push('Too large for the panel');
+      getReport(file.path).skipped = true;
+    }
+    for (const panel of nested.panels) {
+      panelFiles.push(panel.map((p) => placeable[p.id]!));
+      panelPlacements.push(
+        panel.map((p, indexInPanel) => {
+          const item = items[p.id]!;
+          return {
+            indexInPanel,
+            row: 0,
+            col: indexInPanel,
+            x: p.x,
+            y: p.y,
+            width: p.width,
+            height: p.height,
+            rotated: p.rotated,
+            artWidthMm: p.rotated ? item.artH : item.artW,
+            artHeightMm: p.rotated ? item.artW : item.artH,
+          };
+        })
+      );
+    }
+    capacityPerPanel = Math.max(0, ...panelFiles.map((items) => items.length));
+  } else {
+    let start = 0;
+    const counts = distributeItems(placeable.length, grids.map((g) => g.capacityPerPanel), settings.distribution);
+    for (const [panelIndex, count] of counts.entries()) {
+      panelFiles.push(placeable.slice(start, start + count));
+      panelPlacements.push(grids[Math.min(panelIndex, grids.length - 1)]!.placements.slice(0, count));
+      start += count;
+    }
+    // Only when keep-out zones leave the later panels no room at all
+    for (const file of placeable.slice(start)) {
+      getReport(file.path).errors.push('No room left on the panels (keep-out zones)');
+      getReport(file.path).skipped = true;
+    }
+  }
+
+  // Position tokens left in template labels ({panel}, {cell}, ...) follow where each file landed;
+  // nested panels have no rows or columns. Typed labels are used as they are.
+  const nestedLayout = settings.layoutMode === 'nest' || settings.layoutMode === 'contour';
+  let index = 0;
+  for (const [panelIndex, items] of panelFiles.entries()) {
+    panelFiles[panelIndex] = items.map((file, i) => {
+      const placement = panelPlacements[panelIndex]![i]!;
+      index++;
+      if (!file.labelFromTemplate) return file;
+      const parentFolder = resolvePositionTokens(file.parentFolder, {
+        index,
+        panel: panelIndex + 1,
+        row: nestedLayout ? undefined : placement.row + 1,
+        col: nestedLayout ? undefined : placement.col + 1,
+        cell: i + 1,
+      });
+      return parentFolder === file.parentFolder ? file : { ...file, parentFolder };
+    });
+  }
+
+  const panelCount = panelFiles.length;
+  if (panelCount <= 0) {
+    return { panelSvgs: [], panelItems: [], backPanelCount: 0, report: finishReport(), cols: grid.cols, rows: grid.rows, capacityPerPanel };
+  }
+
+  /**
+   * Arc following the file's cut line (or the art bounds when there is none), in panel coordinates.
+   */
+  const getLabelArc = (file: ScannedSvgFile, artBox: Bounds, rotated: boolean): LabelArc | null => {
+    const parsed = cache.get(file.path);
+    if (!parsed) return null;
+    const art = getArt(file.path, parsed);
+    const bounds = rotated ? rotateBounds90(art.bounds) : art.bounds;
+    const { scale, x, y } = fitArtToBox(bounds, artBox);
+
+    if (parsed.cutLineBbox === undefined) {
+      parsed.cutLineBbox = measureCutLineBbox(parsed.svgText);
+    }
+    const cutLine = parsed.cutLineBbox ?? art.bounds;
+    if (!parsed.cutLineBbox) {
+      addWarning(file.path, 'No blue cut line found; the label arc follows the art bounds');
+    }
+    const ring = rotated ? rotateBounds90(cutLine) : cutLine;
+
+    const radius = (Math.min(ring.width, ring.height) / 2) * scale;
+    return {
+      cx: x + (ring.x + ring.width / 2 - bounds.x) * scale,
+      cy: y + (ring.y + ring.height / 2 - bounds.y) * scale,
+      outerRadius: radius - (settings.labelArcOffsetMm ?? 1),
+      startDeg: settings.labelArcStartDeg ?? 120,
+      spanDeg: settings.labelArcSpanDeg ?? 120,
+      maxHeight: settings.labelHeightMm,
+    };
+  };
+
+  const getLabelTarget = (file: ScannedSvgFile, regions: CellRegions): LabelTarget | null => {
+    if (settings.labelPlacement === 'arc') {
+      const arc = getLabelArc(file, regions.artBox, regions.rotated);
+      return arc && arc.outerRadius > 0 ? { arc } : null;
+    }
+    const box = regions.labelBox;
+    return box.width > 0 && box.height > 0 ? { box } : null;
+  };
+
+  const backLabels = settings.labelPlacement === 'back-panel';
+  const labelFontSizes = resolveLabelFontSizes(
+    panelFiles,
+    settings,
+    (panelIndex, i) => {
+      const placement = panelPlacements[panelIndex]![i];
+      const file = panelFiles[panelIndex]![i]!;
+      const text = file.parentFolder || '';
+      if (!placement || !text) return null;
+      const target = getLabelTarget(file, computeCellRegions(placement, settings));
+      return target ? renderLabelSvg(text, target, labelStyle).fitFontSize : null;
+    },
+    (path, message) => addWarning(path, message)
+  );
 
   for (let panelIndex = 0; panelIndex < panelCount; panelIndex++) {
-    const start = panelIndex * grid.capacityPerPanel;
-    const end = Math.min(selected.length, start + grid.capacityPerPanel);
-    const items = selected.slice(start, end);
+    const items = panelFiles[panelIndex]!;
+    panelItems.push(items.map((f) => ({ path: f.path, label: f.parentFolder || '' })));
 
     const parts: string[] = [];
     parts.push(
@@ -139,144 +652,370 @@ export async function buildPanelSvgs(
     );
 
     for (let i = 0; i < items.length; i++) {
-      const placement = grid.placements[i];
+      const placement = panelPlacements[panelIndex]![i];
       if (!placement) break;
 
-      const cellX = placement.x;
-      const cellY = placement.y;
-      const cellS = placement.size;
-
-      const labelHeight = settings.labelHeightMm;
-      const padding = settings.paddingMm;
-
-      // Cell is divided into:
-      // - art region: [cellY .. cellY + cellS - labelHeight]
-      // - label region: [cellY + cellS - labelHeight .. cellY + cellS]
-      // Padding is an optional inset inside each region.
-      const artRegion = {
-        x: cellX,
-        y: cellY,
-        width: cellS,
-        height: Math.max(0, cellS - labelHeight),
-      };
-
-      const labelRegion = {
-        x: cellX,
-        y: cellY + cellS - labelHeight,
-        width: cellS,
-        height: Math.max(0, labelHeight),
-      };
-
-      // Use exact art dimensions if provided, otherwise use artRegion minus padding
-      const exactArtW = settings.artWidthMm ?? (artRegion.width - padding * 2);
-      const exactArtH = settings.artHeightMm ?? (artRegion.height - padding * 2);
-
-      // Center the art box within the art region
-      const artBoxW = Math.max(0, exactArtW);
-      const artBoxH = Math.max(0, exactArtH);
-      const artBoxX = artRegion.x + (artRegion.width - artBoxW) / 2;
-      const artBoxY = artRegion.y + (artRegion.height - artBoxH) / 2;
-
-      const artBox = {
-        x: artBoxX,
-        y: artBoxY,
-        width: artBoxW,
-        height: artBoxH,
-      };
-
-      // Label box: only apply horizontal padding (labels fill their vertical space)
-      // Use a small vertical margin (1mm) to prevent text touching edges
-      const labelPadV = Math.min(1, labelRegion.height * 0.1);
-      const labelBox = {
-        x: labelRegion.x + padding,
-        y: labelRegion.y + labelPadV,
-        width: Math.max(0, labelRegion.width - padding * 2),
-        height: Math.max(0, labelRegion.height - labelPadV * 2),
+      const regions = computeCellRegions(placement, settings);
+      const { cell, artBox } = regions;
+
+      const file = items[i]!;
+      const renderLabel = (text: string): string[] => {
+        const target = text ? getLabelTarget(file, regions) : null;
+        if (!target) return [];
+        const rendered = renderLabelSvg(text, target, labelStyle, labelFontSizes[panelIndex]?.[i]);
+        if (rendered.missingChars.length > 0) {
+          const fontName = labelRenderMode === 'single-line' ? 'Single-line font' : `Font "${settings.labelOutlineFont?.name ?? fontFamily}"`;
+          addWarning(file.path, `${fontName} has no glyph for: ${rendered.missingChars.join(' ')}`);
+        }
+        return [rendered.svg];
       };
 
       if (settings.showCellBorders) {
         parts.push(
-          `<rect x="${cellX}" y="${cellY}" width="${cellS}" height="${cellS}" fill="none" stroke="#2563eb" stroke-width="0.2"/>`
+          `<rect x="${cell.x}" y="${cell.y}" width="${cell.width}" height="${cell.height}" fill="none" stroke="#2563eb" stroke-width="0.2"/>`
         );
       }
 
-      const file = items[i];
-      let parsed = cache.get(file.path);
+      const label = file.parentFolder || '';
+      const parsed = cache.get(file.path);
       if (!parsed) {
-        // Read file content from the fileMap (browser File API)
-        const svgText = await readFileFromMap(fileMap, file.path);
-        const base = parseSvgString(svgText);
-        parsed = { ...base, svgText };
-        cache.set(file.path, parsed);
-      }
-
-      const vb = parsed.viewBox;
-
-      // Choose which content we will render and the bounds used for "zoom-to-content".
-      let renderInner = parsed.innerContent;
-      let renderBounds: Bounds | null = null;
-
-      // ALWAYS process SVGs to inline CSS styles and prevent class name conflicts.
-      // When multiple SVGs are combined into one panel, their <style> blocks can have
-      // conflicting class definitions (e.g., .st0, .st1 mean different colors in each file).
-      // By always processing, we remove <style> blocks and inline the colors directly on elements.
-      // The layerSettings, removeOrnamentHole, and addRoundBacker options are handled inside processLayersForPanel.
-      const needsProcessing = true;
-
-      if (needsProcessing) {
-        if (!parsed.processedContent || parsed.processingKey !== processingKey) {
-          parsed.processedContent = processLayersForPanel(parsed.svgText, layerSettings, {
-            removeOrnamentHole,
-            addRoundBacker,
-            roundBackerStrokeWidth,
-          });
-          parsed.processedBounds = measureInnerContentBounds(vb, parsed.processedContent) ?? undefined;
-          parsed.processingKey = processingKey;
-        }
-        renderInner = parsed.processedContent;
-        renderBounds = parsed.processedBounds ?? null;
+        // Only reachable in placeholder mode: keep the cell so the layout stays predictable
+        parts.push(buildPlaceholderCell(artBox, getBasename(file.path)));
+        if (!backLabels) parts.push(...renderLabel(label));
+        continue;
       }
 
-      // Default bounds: measure the original content once (cached), then fall back to viewBox.
-      if (!renderBounds) {
-        if (!parsed.innerContentBounds) {
-          parsed.innerContentBounds = measureInnerContentBounds(vb, parsed.innerContent) ?? undefined;
-        }
-        renderBounds = parsed.innerContentBounds ?? null;
-      }
-
-      const bounds = renderBounds ?? vb;
-      const scale = Math.min(artBox.width / bounds.width, artBox.height / bounds.height);
-      const scaledW = bounds.width * scale;
-      const scaledH = bounds.height * scale;
-      const offsetX = (artBox.width - scaledW) / 2;
-      const offsetY = (artBox.height - scaledH) / 2;
-
-      // Use filename (without .svg) as group id for easy selection after ungrouping
-      const ornamentId = file.name.replace(/\.svg$/i, '') || `ornament-${i}`;
-      const transform = `translate(${artBox.x + offsetX}, ${artBox.y + offsetY}) scale(${scale}) translate(${-bounds.x}, ${-bounds.y})`;
+      const art = getArt(file.path, parsed);
+      // Turned art is rotated about the origin first, then fitted like any other content
+      const fitBounds = placement.rotated ? rotateBounds90(art.bounds) : art.bounds;
+      const { scale, x: artX, y: artY } = fitArtToBox(fitBounds, artBox);
+      // Give every cell its own id namespace so <defs> from different files don't collide
+      const cellIdPrefix = `p${panelIndex + 1}c${i + 1}-`;
+      const renderInner = art.content.split(CELL_ID_PREFIX_PLACEHOLDER).join(cellIdPrefix);
+
+      // Use filename (without .svg) as group id for easy selection after ungrouping,
+      // prefixed like the content so copies of one file keep unique ids
+      const ornamentId = cellIdPrefix + (file.name.replace(/\.svg$/i, '') || 'ornament');
+      const transform = `translate(${artX}, ${artY}) scale(${scale}) translate(${-fitBounds.x}, ${-fitBounds.y})${placement.rotated ? ' rotate(90)' : ''}`;
       parts.push(`<g id="${escapeXml(ornamentId)}">`);
       parts.push(`<g transform="${transform}">`);
       parts.push(renderInner);
       parts.push(`</g>`);
       parts.push(`</g>`);
 
-      if (labelBox.width > 0 && labelBox.height > 0) {
-        const label = file.parentFolder || '';
-        if (label) {
-          const fit = calculateTextFit(label, fontFamily, labelBox);
+      if (!backLabels) parts.push(...renderLabel(label));
+    }
+
+    parts.push(`</svg>`);
+    panelSvgs.push(parts.join('\n'));
+  }
+
+  // Back panels: same cells mirrored left-to-right, so the labels land behind their art once the sheet is flipped
+  let backPanelCount = 0;
+  if (backLabels) {
+    for (let panelIndex = 0; panelIndex < panelCount; panelIndex++) {
+      const items = panelFiles[panelIndex]!;
+      const parts: string[] = [];
+      parts.push(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${settings.panelWidthMm}mm" height="${settings.panelHeightMm}mm" viewBox="0 0 ${settings.panelWidthMm} ${settings.panelHeightMm}">`
+      );
+      for (let i = 0; i < items.length; i++) {
+        const placement = panelPlacements[panelIndex]![i];
+        if (!placement) break;
+        const mirrored = { ...placement, x: settings.panelWidthMm - placement.x - placement.width };
+        const { cell, labelBox } = computeCellRegions(mirrored, settings);
+        if (settings.showCellBorders) {
           parts.push(
-            `<text x="${fit.x}" y="${fit.y}" font-family="${fontFamily}" font-size="${fit.fontSize}" fill="${labelColor}" text-anchor="middle">${escapeXml(label)}</text>`
+            `<rect x="${cell.x}" y="${cell.y}" width="${cell.width}" height="${cell.height}" fill="none" stroke="#2563eb" stroke-width="0.2"/>`
           );
         }
+        const label = items[i]!.parentFolder || '';
+        if (!label || labelBox.width <= 0 || labelBox.height <= 0) continue;
+        parts.push(renderLabelSvg(label, { box: labelBox }, labelStyle, labelFontSizes[panelIndex]?.[i]).svg);
       }
+      parts.push(`</svg>`);
+      panelSvgs.push(parts.join('\n'));
+      panelItems.push(panelItems[panelIndex]!);
+      backPanelCount++;
     }
+  }
 
-    parts.push(`</svg>`);
-    panelSvgs.push(parts.join('\n'));
+  return { panelSvgs, panelItems, backPanelCount, report: finishReport(), cols: grid.cols, rows: grid.rows, capacityPerPanel, utilization };
+}
+
+interface CellRegions {
+  cell: Bounds;
+  rotated: boolean;
+  artBox: Bounds;
+  labelBox: Bounds;
+}
+
+/**
+ * Split a grid cell into its art box and label box.
+ */
+function computeCellRegions(placement: Placement, settings: PanelBuildSettings): CellRegions {
+  const cellX = placement.x;
+  const cellY = placement.y;
+  const cellW = placement.width;
+  const cellH = placement.height;
+
+  const labelPlacement = settings.labelPlacement ?? 'below';
+  const labelSpace = Math.max(0, settings.labelHeightMm);
+  const padding = settings.paddingMm;
+
+  // Strip placements split the cell into an art region and a label region;
+  // overlay/back-panel/arc keep the whole cell for the art.
+  // Padding is an optional inset inside each region.
+  let artRegion: Bounds = { x: cellX, y: cellY, width: cellW, height: cellH };
+  let labelRegion: Bounds | null = null;
+  if (labelPlacement === 'below') {
+    const labelH = Math.min(cellH, labelSpace);
+    artRegion = { x: cellX, y: cellY, width: cellW, height: cellH - labelH };
+    labelRegion = { x: cellX, y: cellY + cellH - labelH, width: cellW, height: labelH };
+  } else if (labelPlacement === 'above') {
+    const labelH = Math.min(cellH, labelSpace);
+    labelRegion = { x: cellX, y: cellY, width: cellW, height: labelH };
+    artRegion = { x: cellX, y: cellY + labelH, width: cellW, height: cellH - labelH };
+  } else if (labelPlacement === 'right') {
+    const labelW = Math.min(cellW, labelSpace);
+    artRegion = { x: cellX, y: cellY, width: cellW - labelW, height: cellH };
+    labelRegion = { x: cellX + cellW - labelW, y: cellY, width: labelW, height: cellH };
+  }
+
+  // Use exact art dimensions if provided (swapped for turned art), otherwise use artRegion minus padding
+  const exactArtW =
+    placement.artWidthMm ?? (placement.rotated ? settings.artHeightMm : settings.artWidthMm) ?? (artRegion.width - padding * 2);
+  const exactArtH =
+    placement.artHeightMm ?? (placement.rotated ? settings.artWidthMm : settings.artHeightMm) ?? (artRegion.height - padding * 2);
+
+  // Center the art box within the art region
+  const artBoxW = Math.max(0, exactArtW);
+  const artBoxH = Math.max(0, exactArtH);
+  const artBox = {
+    x: artRegion.x + (artRegion.width - artBoxW) / 2,
+    y: artRegion.y + (artRegion.height - artBoxH) / 2,
+    width: artBoxW,
+    height: artBoxH,
+  };
+
+  let labelBox: Bounds;
+  if (labelRegion) {
+    // Label box: only apply horizontal padding (labels fill their vertical space)
+    // Use a small vertical margin (1mm) to prevent text touching edges
+    const labelPadV = Math.min(1, labelRegion.height * 0.1);
+    labelBox = {
+      x: labelRegion.x + padding,
+      y: labelRegion.y + labelPadV,
+      width: Math.max(0, labelRegion.width - padding * 2),
+      height: Math.max(0, labelRegion.height - labelPadV * 2),
+    };
+  } else {
+    // Overlay/back: a band of labelHeightMm through the middle of the art, narrowed so
+    // text stays clear of the edge of round ornaments
+    const bandH = Math.min(artBox.height, settings.labelHeightMm > 0 ? settings.labelHeightMm : artBox.height / 4);
+    const bandW = artBox.width * 0.8;
+    labelBox = {
+      x: artBox.x + (artBox.width - bandW) / 2,
+      y: artBox.y + (artBox.height - bandH) / 2,
+      width: bandW,
+      height: bandH,
+    };
+  }
+
+  return { cell: { x: cellX, y: cellY, width: cellW, height: cellH }, rotated: placement.rotated ?? false, artBox, labelBox };
+}
+
+/**
+ * Scale and position that fit content bounds inside a box, centered (panel = x/y + (p - bounds) * scale).
+ */
+function fitArtToBox(bounds: Bounds, box: Bounds): { scale: number; x: number; y: number } {
+  const scale = Math.min(box.width / bounds.width, box.height / bounds.height);
+  return {
+    scale,
+    x: box.x + (box.width - bounds.width * scale) / 2,
+    y: box.y + (box.height - bounds.height * scale) / 2,
+  };
+}
+
+/**
+ * Bounds of content after rotate(90) about the origin: (x, y) -> (-y, x).
+ */
+function rotateBounds90(b: Bounds): Bounds {
+  return { x: -(b.y + b.height), y: b.x, width: b.height, height: b.width };
+}
+
+interface LabelStyle {
+  renderMode: 'text' | 'outline' | 'single-line';
+  fontFamily: string;
+  color: string;
+  outlineFont: OutlineFont | null;
+  strokeFontId: string;
+  strokeWidth: number;
+  maxLines: number;
+}
+
+type LabelTarget = { box: Bounds } | { arc: LabelArc };
+
+/**
+ * Single-line label along an arc. The text is kept as one line; maxLines doesn't apply.
+ */
+function renderArcLabelSvg(
+  text: string,
+  arc: LabelArc,
+  style: LabelStyle,
+  fontSize?: number
+): { svg: string; fitFontSize: number; missingChars: string[] } {
+  if (style.renderMode === 'single-line') {
+    // Keep the stroke inside the arc band
+    const inset = style.strokeWidth / 2;
+    const strokeArc = { ...arc, outerRadius: arc.outerRadius - inset, maxHeight: Math.max(0, arc.maxHeight - style.strokeWidth) };
+    const stroked = fitStrokeTextOnArc(text, style.strokeFontId, strokeArc, { fontSize });
+    return {
+      svg: `<path d="${stroked.d}" fill="none" stroke="${style.color}" stroke-width="${style.strokeWidth}" stroke-linecap="round" stroke-linejoin="round" data-label="${escapeXml(text)}"/>`,
+      fitFontSize: stroked.fitFontSize,
+      missingChars: stroked.missingChars,
+    };
+  }
+
+  if (style.renderMode === 'outline' && style.outlineFont) {
+    const outline = fitTextOutlineOnArc(text, style.outlineFont, arc, { fontSize });
+    return {
+      svg: `<path d="${outline.d}" fill="${style.color}" data-label="${escapeXml(text)}"/>`,
+      fitFontSize: outline.fitFontSize,
+      missingChars: outline.missingChars,
+    };
+  }
+
+  // One <text> per glyph so laser software without textPath support still places them correctly
+  const layout = calculateArcTextFit(text, style.fontFamily, arc, { fontSize });
+  const glyphs = layout.glyphs
+    .filter((g) => g.ch.trim())
+    .map(
+      (g) =>
+        `<text transform="translate(${round3(g.x)} ${round3(g.y)}) rotate(${round3(g.rotate)})" text-anchor="middle">${escapeXml(g.ch)}</text>`
+    );
+  return {
+    svg: `<g font-family="${style.fontFamily}" font-size="${layout.fontSize}" fill="${style.color}" data-label="${escapeXml(text)}">${glyphs.join('')}</g>`,
+    fitFontSize: layout.fitFontSize,
+    missingChars: [],
+  };
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Render one label into its box as <text>, outline <path> or single-line stroke <path>.
+ * When fontSize is given the label is drawn at that size instead of the best fit.
+ */
+function renderLabelSvg(
+  text: string,
+  target: LabelTarget,
+  style: LabelStyle,
+  fontSize?: number
+): { svg: string; fitFontSize: number; missingChars: string[] } {
+  if ('arc' in target) return renderArcLabelSvg(text, target.arc, style, fontSize);
+
+  const { box } = target;
+  const options = { maxLines: style.maxLines, fontSize };
+
+  if (style.renderMode === 'single-line') {
+    // Keep the stroke inside the label box
+    const inset = style.strokeWidth / 2;
+    const strokeBox = {
+      x: box.x + inset,
+      y: box.y + inset,
+      width: Math.max(0, box.width - style.strokeWidth),
+      height: Math.max(0, box.height - style.strokeWidth),
+    };
+    const stroked = fitStrokeText(text, style.strokeFontId, strokeBox, options);
+    return {
+      svg: `<path d="${stroked.d}" fill="none" stroke="${style.color}" stroke-width="${style.strokeWidth}" stroke-linecap="round" stroke-linejoin="round" data-label="${escapeXml(text)}"/>`,
+      fitFontSize: stroked.fitFontSize,
+      missingChars: stroked.missingChars,
+    };
   }
 
-  return { panelSvgs, cols: grid.cols, rows: grid.rows, capacityPerPanel: grid.capacityPerPanel };
+  if (style.renderMode === 'outline' && style.outlineFont) {
+    const outline = fitTextOutline(text, style.outlineFont, box, options);
+    return {
+      svg: `<path d="${outline.d}" fill="${style.color}" data-label="${escapeXml(text)}"/>`,
+      fitFontSize: outline.fitFontSize,
+      missingChars: outline.missingChars,
+    };
+  }
+
+  const fit = calculateTextFit(text, style.fontFamily, box, options);
+  const content = fit.lines.length > 1
+    ? fit.lines.map((line) => `<tspan x="${fit.x}" y="${line.y}">${escapeXml(line.text)}</tspan>`).join('')
+    : escapeXml(fit.lines[0]?.text ?? text);
+  return {
+    svg: `<text x="${fit.x}" y="${fit.y}" font-family="${style.fontFamily}" font-size="${fit.fontSize}" fill="${style.color}" text-anchor="middle">${content}</text>`,
+    fitFontSize: fit.fitFontSize,
+    missingChars: [],
+  };
+}
+
+/**
+ * Decide the font size of every label, indexed [panel][cell].
+ * undefined means "best fit for this label" (the default, unclamped behaviour).
+ * Uniform modes use the largest size that fits every label in the panel or job,
+ * then min/max clamps apply; labels that don't fit at the final size are reported.
+ */
+function resolveLabelFontSizes(
+  panelFiles: ScannedSvgFile[][],
+  settings: PanelBuildSettings,
+  measureFit: (panelIndex: number, i: number) => number | null,
+  warn: (path: string, message: string) => void
+): Array<Array<number | undefined>> {
+  const sizing = settings.labelSizing ?? 'fit';
+  const minSize = settings.labelMinFontSizeMm && settings.labelMinFontSizeMm > 0 ? settings.labelMinFontSizeMm : undefined;
+  const maxSize = settings.labelMaxFontSizeMm && settings.labelMaxFontSizeMm > 0 ? settings.labelMaxFontSizeMm : undefined;
+
+  if (sizing === 'fit' && minSize === undefined && maxSize === undefined) {
+    return panelFiles.map((items) => items.map(() => undefined));
+  }
+
+  // Best-fit size of each label (null when the cell has no label)
+  const fits = panelFiles.map((items, panelIndex) => items.map((_, i) => measureFit(panelIndex, i)));
+
+  const smallest = (sizes: Array<number | null>) =>
+    sizes.reduce<number | null>((min, size) => (size !== null && (min === null || size < min) ? size : min), null);
+  const jobSize = sizing === 'uniform-job' ? smallest(fits.flat()) : null;
+
+  return fits.map((panelFits, panelIndex) => {
+    const groupSize = sizing === 'uniform-panel' ? smallest(panelFits) : jobSize;
+    return panelFits.map((fit, i) => {
+      if (fit === null) return undefined;
+      let size = sizing === 'fit' ? fit : groupSize ?? fit;
+      if (maxSize !== undefined) size = Math.min(size, maxSize);
+      if (minSize !== undefined) size = Math.max(size, minSize);
+
+      if (size > fit * 1.001) {
+        const file = panelFiles[panelIndex]![i]!;
+        warn(file.path, `Label "${file.parentFolder}" overflows its box at ${Math.round(size * 100) / 100} mm (fits at ${Math.round(fit * 100) / 100} mm)`);
+      }
+      return sizing === 'fit' && size === fit ? undefined : size;
+    });
+  });
+}
+
+/**
+ * Placeholder drawn in place of a file that could not be loaded (crossed-out box + file name).
+ * Uses the cell border color so it is easy to spot and delete before cutting.
+ */
+function buildPlaceholderCell(box: Bounds, fileName: string): string {
+  const { x, y, width, height } = box;
+  const fontSize = Math.max(1, Math.min(height * 0.08, (width / Math.max(1, fileName.length)) * 1.6));
+  return [
+    `<g data-placeholder="true">`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="#2563eb" stroke-width="0.3" stroke-dasharray="2 1"/>`,
+    `<line x1="${x}" y1="${y}" x2="${x + width}" y2="${y + height}" stroke="#2563eb" stroke-width="0.3"/>`,
+    `<line x1="${x + width}" y1="${y}" x2="${x}" y2="${y + height}" stroke="#2563eb" stroke-width="0.3"/>`,
+    `<text x="${x + width / 2}" y="${y + height / 2}" font-family="${DEFAULT_FONT_FAMILY}" font-size="${fontSize}" fill="#2563eb" text-anchor="middle" dominant-baseline="middle">${escapeXml(fileName)}</text>`,
+    `</g>`,
+  ].join('\n');
 }
 
 function isClosedPath(d: string | null): boolean {
@@ -794,6 +1533,87 @@ interface ProcessingOptions {
   removeOrnamentHole?: boolean;
   addRoundBacker?: boolean;
   roundBackerStrokeWidth?: number;
+  idPrefix?: string;  // Prefix applied to every id and every #id / url(#id) reference
+}
+
+/**
+ * Rewrite all ids and class names inside an imported SVG with a prefix, along with every
+ * reference to them (href / xlink:href="#id", url(#id) in attributes and inline styles, and
+ * #id / .class selectors and url(#id) in <style> text).
+ * Prevents gradients, clip paths, masks and Illustrator's .st0-style rules from different
+ * source files colliding in one panel (style rules in an inline SVG apply to the whole page).
+ */
+function prefixSvgIds(root: Element, prefix: string): void {
+  const idMap = new Map<string, string>();
+  root.querySelectorAll('[id]').forEach((el) => {
+    const id = el.getAttribute('id');
+    if (!id) return;
+    const newId = `${prefix}${id}`;
+    idMap.set(id, newId);
+    el.setAttribute('id', newId);
+  });
+  const classMap = new Map<string, string>();
+  root.querySelectorAll('[class]').forEach((el) => {
+    const classes = (el.getAttribute('class') ?? '').split(/\s+/).filter(Boolean);
+    for (const name of classes) classMap.set(name, `${prefix}${name}`);
+    el.setAttribute('class', classes.map((name) => classMap.get(name)!).join(' '));
+  });
+  if (idMap.size === 0 && classMap.size === 0) return;
+
+  const rewriteUrls = (value: string) =>
+    value.replace(/url\(\s*(['"]?)#([^)'"\s]+)\1\s*\)/g, (match, quote: string, id: string) => {
+      const newId = idMap.get(id);
+      return newId ? `url(${quote}#${newId}${quote})` : match;
+    });
+
+  const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+  for (const el of elements) {
+    for (const attr of Array.from(el.attributes)) {
+      let value = attr.value;
+      if (attr.localName === 'href' && value.startsWith('#')) {
+        const newId = idMap.get(value.slice(1));
+        if (newId) value = `#${newId}`;
+      } else if (value.includes('url(')) {
+        value = rewriteUrls(value);
+      }
+      if (value !== attr.value) {
+        el.setAttributeNS(attr.namespaceURI, attr.name, value);
+      }
+    }
+    if (el.tagName.toLowerCase() === 'style' && el.textContent) {
+      el.textContent = rewriteSelectors(rewriteUrls(el.textContent), idMap, classMap);
+    }
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rename #id and .class in the selectors of a style sheet (declarations are left alone, so
+ * colors like #fff never match). Longer names are tried first so "st1" can't eat "st10".
+ */
+function rewriteSelectors(css: string, idMap: Map<string, string>, classMap: Map<string, string>): string {
+  const rename = (text: string, sigil: '#' | '.', map: Map<string, string>) => {
+    if (map.size === 0) return text;
+    const names = Array.from(map.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`\\${sigil}(${names.join('|')})(?![\\w-])`, 'g');
+    return text.replace(pattern, (_match, name: string) => `${sigil}${map.get(name)}`);
+  };
+
+  // Selector text is whatever precedes an opening brace
+  return css.replace(/([^{}]+)\{/g, (_match, selector: string) => `${rename(rename(selector, '#', idMap), '.', classMap)}{`);
+}
+
+/**
+ * prefixSvgIds for inner SVG markup that hasn't been through the DOM yet.
+ */
+function prefixContentIds(innerContent: string, prefix: string): string {
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.innerHTML = innerContent;
+  prefixSvgIds(svg, prefix);
+  return svg.innerHTML;
 }
 
 /**
@@ -802,7 +1622,7 @@ interface ProcessingOptions {
  * When layers is null, only ornament hole removal and round backer are applied (passthrough mode).
  */
 export function processLayersForPanel(svgText: string, layers: LayerConfig[] | null, options: ProcessingOptions = {}): string {
-  const { removeOrnamentHole = false, addRoundBacker = false, roundBackerStrokeWidth = 0.5 } = options;
+  const { removeOrnamentHole = false, addRoundBacker = false, roundBackerStrokeWidth = 0.5, idPrefix } = options;
 
   const parser = new DOMParser();
   const doc = parser.parseFromString(svgText, 'image/svg+xml');
@@ -1002,11 +1822,87 @@ export function processLayersForPanel(svgText: string, layers: LayerConfig[] | n
     coverOrnamentHoleWithBackground(imported, viewBox);
   }
 
+  if (idPrefix) {
+    prefixSvgIds(imported, idPrefix);
+  }
+
   const inner = imported.innerHTML;
   document.body.removeChild(container);
   return inner;
 }
 
+/**
+ * Bounding box of the blue cut line in a file's own coordinates, or null if it has none.
+ */
+function measureCutLineBbox(svgText: string): Bounds | null {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const svg = doc.querySelector('svg');
+  if (!svg || doc.querySelector('parsererror')) return null;
+
+  // getBBox only works on rendered elements
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-99999px';
+  container.style.top = '-99999px';
+  container.style.visibility = 'hidden';
+  document.body.appendChild(container);
+  try {
+    const imported = document.importNode(svg, true) as SVGSVGElement;
+    container.appendChild(imported);
+    return detectCutLineBbox(imported, parseSvgStyleBlock(svgText));
+  } finally {
+    document.body.removeChild(container);
+  }
+}
+
+/**
+ * The blue cut line sampled as a polygon in the file's own coordinates, or null if it has none.
+ * Only the outer path is followed; holes and inner cuts don't affect nesting.
+ */
+function measureCutLineOutline(svgText: string, samples = 96): NestPoint[] | null {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const svg = doc.querySelector('svg');
+  if (!svg || doc.querySelector('parsererror')) return null;
+
+  // Path lengths, like getBBox, need rendered elements
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-99999px';
+  container.style.top = '-99999px';
+  container.style.visibility = 'hidden';
+  document.body.appendChild(container);
+  try {
+    const imported = document.importNode(svg, true) as SVGSVGElement;
+    container.appendChild(imported);
+    const cutLine = findCutLine(imported, parseSvgStyleBlock(svgText));
+    if (!cutLine) return null;
+
+    const { bbox } = cutLine;
+    const corners = [
+      { x: bbox.x, y: bbox.y },
+      { x: bbox.x + bbox.width, y: bbox.y },
+      { x: bbox.x + bbox.width, y: bbox.y + bbox.height },
+      { x: bbox.x, y: bbox.y + bbox.height },
+    ];
+    try {
+      const geometry = cutLine.element as SVGGeometryElement;
+      const length = geometry.getTotalLength();
+      if (!(length > 0)) return corners;
+      const points: NestPoint[] = [];
+      for (let i = 0; i < samples; i++) {
+        const p = geometry.getPointAtLength((length * i) / samples);
+        points.push({ x: p.x, y: p.y });
+      }
+      return points;
+    } catch {
+      // Unsupported geometry: fall back to the cut line's box
+      return corners;
+    }
+  } finally {
+    document.body.removeChild(container);
+  }
+}
+
 /**
  * Detect the blue cut line's bounding box before layer processing removes it.
  * This is called BEFORE elements are removed so we can use the bbox for round backer positioning.
@@ -1015,10 +1911,20 @@ function detectCutLineBbox(
   imported: SVGSVGElement,
   styleMap: Map<string, ParsedStyleRule>
 ): { x: number; y: number; width: number; height: number } | null {
+  return findCutLine(imported, styleMap)?.bbox ?? null;
+}
+
+/**
+ * The largest blue element (usually the outer cut circle) and its bounding box.
+ */
+function findCutLine(
+  imported: SVGSVGElement,
+  styleMap: Map<string, ParsedStyleRule>
+): { element: Element; bbox: { x: number; y: number; width: number; height: number } } | null {
   const cutLineColor = '#0000ff';
   const candidates = Array.from(imported.querySelectorAll('circle, ellipse, path'));
 
-  let bestBbox: { x: number; y: number; width: number; height: number } | null = null;
+  let best: { element: Element; bbox: { x: number; y: number; width: number; height: number } } | null = null;
 
   for (const el of candidates) {
     let stroke: string | null = null;
@@ -1052,12 +1958,12 @@ function detectCutLineBbox(
     if (!bbox || bbox.width <= 0) continue;
 
     // Prefer the largest blue element (usually the outer cut circle)
-    if (!bestBbox || bbox.width > bestBbox.width) {
-      bestBbox = { x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height };
+    if (!best || bbox.width > best.bbox.width) {
+      best = { element: el, bbox: { x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height } };
     }
   }
 
-  return bestBbox;
+  return best;
 }
 
 /**
@@ -1222,17 +2128,12 @@ export function detectSvgColors(svgText: string): string[] {
  */
 export async function getSvgFileDimensions(file: File): Promise<{ width: number; height: number } | null> {
   try {
-    const svgText = await file.text();
+    const { svgText } = sanitizeSvgText(await file.text());
     const parser = new DOMParser();
     const doc = parser.parseFromString(svgText, 'image/svg+xml');
     const svg = doc.querySelector('svg');
     if (!svg) return null;
 
-    // Convert px/pt/unitless to mm using 72 DPI (Adobe Illustrator / xTool standard)
-    // Note: Different tools use different DPIs (Illustrator=72, Inkscape=96, old SVG spec=90)
-    // Using 72 DPI matches xTool's interpretation of Adobe-created SVGs
-    const PIXELS_TO_MM = 25.4 / 72;
-
     // Get viewBox for setting up measurement container
     const vbAttr = svg.getAttribute('viewBox');
     let vb = { x: 0, y: 0, width: 1000, height: 1000 };
@@ -1288,3 +2189,96 @@ export async function getSvgFileDimensions(file: File): Promise<{ width: number;
     return null;
   }
 }
+
+/**
+ * Read a remnant outline SVG as keep-out shapes in mm, one polygon per drawn element.
+ * Sizes come from the file's mm/cm/in width (else 72 dpi, like the artwork); the outline's
+ * origin is the panel's top-left corner.
+ */
+export async function importKeepOutSvg(file: File, samples = 64): Promise<KeepOutShape[]> {
+  const { svgText } = sanitizeSvgText(await file.text());
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const svg = doc.querySelector('svg');
+  if (!svg || doc.querySelector('parsererror')) throw new Error(`${file.name} is not a readable SVG.`);
+
+  const vb = getSvgViewBox(svg as unknown as SVGSVGElement);
+  const widthAttr = svg.getAttribute('width')?.trim().match(/^([\d.]+)\s*(mm|cm|in)$/i);
+  const unitMm = widthAttr ? { mm: 1, cm: 10, in: 25.4 }[widthAttr[2]!.toLowerCase() as 'mm' | 'cm' | 'in'] : 0;
+  const scale = vb && widthAttr && vb.width > 0 ? (parseFloat(widthAttr[1]!) * unitMm) / vb.width : PIXELS_TO_MM;
+
+  // Path lengths and transforms need rendered elements; one user unit per pixel
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-99999px';
+  container.style.top = '-99999px';
+  container.style.visibility = 'hidden';
+  document.body.appendChild(container);
+  try {
+    const imported = document.importNode(svg, true) as SVGSVGElement;
+    if (vb) {
+      imported.setAttribute('width', String(vb.width));
+      imported.setAttribute('height', String(vb.height));
+    }
+    container.appendChild(imported);
+
+    const shapes: KeepOutShape[] = [];
+    for (const el of Array.from(imported.querySelectorAll('rect, circle, ellipse, polygon, polyline, path'))) {
+      if (el.closest('defs, clipPath, mask, pattern, symbol')) continue;
+      const geometry = el as SVGGeometryElement;
+      const ctm = geometry.getCTM();
+      if (!ctm) continue;
+
+      let local: NestPoint[];
+      try {
+        if (el.tagName === 'polygon' || el.tagName === 'polyline') {
+          local = Array.from((el as SVGPolygonElement).points, (p) => ({ x: p.x, y: p.y }));
+        } else {
+          const length = geometry.getTotalLength();
+          if (!(length > 0)) continue;
+          local = [];
+          for (let i = 0; i < samples; i++) {
+            const p = geometry.getPointAtLength((length * i) / samples);
+            local.push({ x: p.x, y: p.y });
+          }
+        }
+      } catch {
+        continue;
+      }
+      if (local.length < 3) continue;
+
+      const points = local.map((p) => ({
+        x: round3((ctm.a * p.x + ctm.c * p.y + ctm.e) * scale),
+        y: round3((ctm.b * p.x + ctm.d * p.y + ctm.f) * scale),
+      }));
+      const xs = points.map((p) => p.x);
+      const ys = points.map((p) => p.y);
+      if (Math.max(...xs) - Math.min(...xs) <= 0 || Math.max(...ys) - Math.min(...ys) <= 0) continue;
+      shapes.push({ kind: 'polygon', points });
+    }
+    if (shapes.length === 0) throw new Error(`${file.name} has no outlines to use.`);
+    return shapes;
+  } finally {
+    document.body.removeChild(container);
+  }
+}
+
+/**
+ * Keep-out zones drawn over a panel preview (red, hatched). Preview only; never exported.
+ */
+export function renderKeepOutOverlay(shapes: KeepOutShape[]): string {
+  if (shapes.length === 0) return '';
+  const style = 'fill="url(#keep-out-hatch)" stroke="#dc2626" stroke-width="0.4"';
+  const elements = shapes.map((shape) =>
+    shape.kind === 'rect'
+      ? `<rect x="${round3(shape.x)}" y="${round3(shape.y)}" width="${round3(shape.width)}" height="${round3(shape.height)}" ${style}/>`
+      : `<polygon points="${shape.points.map((p) => `${round3(p.x)},${round3(p.y)}`).join(' ')}" ${style}/>`
+  );
+  return (
+    `<g class="keep-out-preview">` +
+    `<defs><pattern id="keep-out-hatch" width="3" height="3" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">` +
+    `<rect width="3" height="3" fill="#dc2626" fill-opacity="0.12"/><line x1="0" y1="0" x2="0" y2="3" stroke="#dc2626" stroke-width="0.6" stroke-opacity="0.6"/>` +
+    `</pattern></defs>` +
+    elements.join('') +
+    `</g>`
+  );
+}
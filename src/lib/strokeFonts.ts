@@ -0,0 +1,154 @@
+import { STROKE_FONT_DATA, type StrokeFontData } from './strokeFontData';
+import { layoutTextOnArc, placeOnArc, type LabelArc } from './arcText';
+import { chooseLineSplit, getLastBaseline, type TextFitOptions } from './textFit';
+
+/**
+ * Render labels with bundled single-line (Hershey) fonts.
+ * The result is a set of open paths meant to be stroked, so the laser can
+ * vector-score small labels instead of raster-filling outline text.
+ */
+
+export type StrokeFontId = keyof typeof STROKE_FONT_DATA;
+
+export const DEFAULT_STROKE_FONT: StrokeFontId = 'hershey-sans';
+
+export const STROKE_FONTS: Array<{ id: StrokeFontId; name: string }> = (
+  Object.keys(STROKE_FONT_DATA) as StrokeFontId[]
+).map((id) => ({ id, name: STROKE_FONT_DATA[id].name }));
+
+const FIRST_GLYPH_CODE = 33;   // '!'
+const SPACE_ADVANCE = 16;      // Hershey word space, in font units
+const BASELINE_Y = 22;         // Glyph y coordinate of the baseline
+const UNITS_PER_EM = 32;
+
+export interface StrokeTextFit {
+  d: string;               // Open path data, to be drawn with fill="none" and a stroke
+  fontSize: number;
+  fitFontSize: number;     // Largest size at which the label fits the box
+  missingChars: string[];  // Characters outside the bundled glyph set (skipped, advance as a space)
+}
+
+function getMissingChars(font: StrokeFontData, text: string): string[] {
+  return Array.from(new Set(Array.from(text))).filter((ch) => ch.trim() && !getGlyph(font, ch));
+}
+
+function getStrokeFont(fontId: string): StrokeFontData {
+  return (STROKE_FONT_DATA as Record<string, StrokeFontData>)[fontId] ?? STROKE_FONT_DATA[DEFAULT_STROKE_FONT];
+}
+
+function getGlyph(font: StrokeFontData, ch: string): [number, string] | null {
+  const code = ch.charCodeAt(0);
+  return font.glyphs[code - FIRST_GLYPH_CODE] ?? null;
+}
+
+/**
+ * Width of a string in font units.
+ */
+function measureStrokeText(font: StrokeFontData, text: string): number {
+  let width = 0;
+  for (const ch of text) {
+    width += getGlyph(font, ch)?.[0] ?? SPACE_ADVANCE;
+  }
+  return width;
+}
+
+function formatCoord(n: number): string {
+  return String(Math.round(n * 1000) / 1000);
+}
+
+/**
+ * Fit text into a box as single-line strokes, using the same rules as calculateTextFit:
+ * wrap into up to maxLines, scale to 99% of the box (or use a fixed size), center each
+ * line horizontally and sit the last line's descent on the box bottom.
+ */
+export function fitStrokeText(
+  text: string,
+  fontId: string,
+  box: { x: number; y: number; width: number; height: number },
+  options: TextFitOptions = {}
+): StrokeTextFit {
+  const font = getStrokeFont(fontId);
+  const missingChars = getMissingChars(font, text);
+
+  if (!text.trim() || box.width <= 0 || box.height <= 0) {
+    return { d: '', fontSize: options.fontSize ?? 12, fitFontSize: 0, missingChars };
+  }
+
+  const lineHeight = font.ascent + font.descent;
+  const split = chooseLineSplit(text, options.maxLines ?? 1, box, (line) => measureStrokeText(font, line) || 1, lineHeight);
+  const fitFontSize = split.scale * UNITS_PER_EM;
+  const scale = options.fontSize !== undefined ? options.fontSize / UNITS_PER_EM : split.scale;
+  const lastBaseline = getLastBaseline(
+    box,
+    split.lines.length,
+    lineHeight * scale,
+    font.descent * scale,
+    options.fontSize !== undefined
+  );
+
+  const commands: string[] = [];
+  split.lines.forEach((line, lineIndex) => {
+    const originX = box.x + (box.width - measureStrokeText(font, line) * scale) / 2;
+    const baselineY = lastBaseline - (split.lines.length - 1 - lineIndex) * lineHeight * scale;
+
+    let penX = 0;
+    for (const ch of line) {
+      const glyph = getGlyph(font, ch);
+      if (!glyph) {
+        penX += SPACE_ADVANCE;
+        continue;
+      }
+      const [advance, glyphD] = glyph;
+      // Glyph data is absolute M/L commands with "x,y" pairs
+      for (const token of glyphD.split(/\s+/)) {
+        const m = token.match(/^([ML]?)(-?[\d.]+),(-?[\d.]+)$/);
+        if (!m) continue;
+        const x = originX + (penX + Number(m[2])) * scale;
+        const y = baselineY + (Number(m[3]) - BASELINE_Y) * scale;
+        commands.push(`${m[1]}${formatCoord(x)},${formatCoord(y)}`);
+      }
+      penX += advance;
+    }
+  });
+
+  return { d: commands.join(' '), fontSize: scale * UNITS_PER_EM, fitFontSize, missingChars };
+}
+
+/**
+ * Single-line strokes following a circular arc (see layoutTextOnArc).
+ */
+export function fitStrokeTextOnArc(
+  text: string,
+  fontId: string,
+  arc: LabelArc,
+  options: { fontSize?: number } = {}
+): StrokeTextFit {
+  const font = getStrokeFont(fontId);
+  const missingChars = getMissingChars(font, text);
+  const layout = layoutTextOnArc(
+    text,
+    arc,
+    {
+      advance: (ch) => (getGlyph(font, ch)?.[0] ?? SPACE_ADVANCE) / UNITS_PER_EM,
+      ascent: font.ascent / UNITS_PER_EM,
+      descent: font.descent / UNITS_PER_EM,
+    },
+    options.fontSize
+  );
+
+  const scale = layout.fontSize / UNITS_PER_EM;
+  const commands: string[] = [];
+  for (const placed of layout.glyphs) {
+    const glyph = getGlyph(font, placed.ch);
+    if (!glyph) continue;
+    const [advance, glyphD] = glyph;
+    for (const token of glyphD.split(/\s+/)) {
+      const m = token.match(/^([ML]?)(-?[\d.]+),(-?[\d.]+)$/);
+      if (!m) continue;
+      const [x, y] = placeOnArc(placed, (Number(m[2]) - advance / 2) * scale, (Number(m[3]) - BASELINE_Y) * scale);
+      commands.push(`${m[1]}${formatCoord(x)},${formatCoord(y)}`);
+    }
+  }
+
+  return { d: commands.join(' '), fontSize: layout.fontSize, fitFontSize: layout.fitFontSize, missingChars };
+}
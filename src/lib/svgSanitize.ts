@@ -0,0 +1,142 @@
+/**
+ * Strip active content and external references from imported SVG text.
+ * Runs before any other processing so the preview (innerHTML) and exported panels
+ * only ever contain static vector content.
+ */
+
+export interface SanitizeResult {
+  svgText: string;
+  removed: string[];  // Human-readable summary of what was stripped, e.g. "<script> x2"
+}
+
+// Elements that execute code, embed other documents, or animate (non-static) content
+const BLOCKED_ELEMENTS = new Set([
+  'script',
+  'foreignobject',
+  'iframe',
+  'embed',
+  'object',
+  'audio',
+  'video',
+  'canvas',
+  'animate',
+  'animatemotion',
+  'animatetransform',
+  'animatecolor',
+  'set',
+  'discard',
+  'handler',
+  'listener',
+]);
+
+// Embedded raster images are static and self-contained, so they may stay
+const SAFE_DATA_URI = /^data:image\/(png|jpe?g|gif|webp|bmp);/i;
+
+function isExternalUrl(value: string): boolean {
+  const v = value.trim();
+  if (!v || v.startsWith('#')) return false;
+  return !SAFE_DATA_URI.test(v);
+}
+
+/**
+ * Remove url(...) references that don't point at a local #id.
+ */
+function stripExternalCssUrls(css: string): { css: string; count: number } {
+  let count = 0;
+  const cleaned = css
+    .replace(/@import[^;]*;?/gi, () => {
+      count++;
+      return '';
+    })
+    .replace(/url\(\s*(['"]?)([^)'"]*)\1\s*\)/gi, (match, _quote: string, target: string) => {
+      if (!isExternalUrl(target)) return match;
+      count++;
+      return 'none';
+    })
+    .replace(/expression\s*\(/gi, () => {
+      count++;
+      return '(';
+    });
+  return { css: cleaned, count };
+}
+
+export function sanitizeSvgText(svgText: string): SanitizeResult {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(svgText, 'image/svg+xml');
+
+  // Leave malformed input untouched - parseSvgString reports the parse error
+  if (doc.querySelector('parsererror')) return { svgText, removed: [] };
+  const svg = doc.querySelector('svg');
+  if (!svg) return { svgText, removed: [] };
+
+  const counts = new Map<string, number>();
+  const note = (what: string, n: number = 1) => counts.set(what, (counts.get(what) ?? 0) + n);
+
+  // Processing instructions (e.g. external stylesheets) can live outside the root element
+  const walker = doc.createTreeWalker(doc, NodeFilter.SHOW_PROCESSING_INSTRUCTION);
+  const instructions: Node[] = [];
+  while (walker.nextNode()) instructions.push(walker.currentNode);
+  for (const pi of instructions) {
+    note(`<?${(pi as ProcessingInstruction).target}?> instruction`);
+    pi.parentNode?.removeChild(pi);
+  }
+
+  for (const el of Array.from(svg.querySelectorAll('*'))) {
+    const tag = el.localName.toLowerCase();
+    if (BLOCKED_ELEMENTS.has(tag)) {
+      // The element may already be detached if an ancestor was removed
+      if (el.isConnected) {
+        note(`<${el.localName}>`);
+        el.remove();
+      }
+    }
+  }
+
+  for (const el of [svg, ...Array.from(svg.querySelectorAll('*'))]) {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      const value = attr.value;
+
+      if (name.startsWith('on')) {
+        note(`${name} handler`);
+        el.removeAttributeNode(attr);
+        continue;
+      }
+
+      if (attr.localName.toLowerCase() === 'href' || name === 'src') {
+        if (isExternalUrl(value)) {
+          note(`external ${attr.localName} on <${el.localName}>`);
+          el.removeAttributeNode(attr);
+        }
+        continue;
+      }
+
+      if (/javascript:/i.test(value)) {
+        note(`javascript: URL in ${name}`);
+        el.removeAttributeNode(attr);
+        continue;
+      }
+
+      if (value.includes('url(') || /expression\s*\(/i.test(value)) {
+        const { css, count } = stripExternalCssUrls(value);
+        if (count > 0) {
+          note(`external url() in ${name}`, count);
+          el.setAttributeNS(attr.namespaceURI, attr.name, css);
+        }
+      }
+    }
+
+    if (el.localName.toLowerCase() === 'style' && el.textContent) {
+      const { css, count } = stripExternalCssUrls(el.textContent);
+      if (count > 0) {
+        note('external reference in <style>', count);
+        el.textContent = css;
+      }
+    }
+  }
+
+  if (counts.size === 0) return { svgText, removed: [] };
+
+  const removed = Array.from(counts, ([what, n]) => (n > 1 ? `${what} x${n}` : what));
+  return { svgText: new XMLSerializer().serializeToString(doc), removed };
+}
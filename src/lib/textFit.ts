@@ -1,3 +1,5 @@
+import { layoutTextOnArc, type ArcTextLayout, type LabelArc } from './arcText';
+
 export const DEFAULT_FONT_FAMILY = 'Roboto';
 
 export function escapeXml(str: string): string {
@@ -51,35 +53,190 @@ export function measureTextSvg(
   return { width: bbox.width, height: bbox.height, ascent, descent };
 }
 
+type Box = { x: number; y: number; width: number; height: number };
+
+export interface LineSplit {
+  lines: string[];
+  scale: number;  // Multiplier from the reference size that makes the lines fit the box
+}
+
+/**
+ * Split text into lines so it renders as large as possible inside the box.
+ * Explicit line breaks (newlines) always break; words are then wrapped so the total
+ * stays within maxLines, choosing the split that maximizes the resulting font size.
+ *
+ * @param measureWidth - width of a single line at the reference size
+ * @param lineHeight - line height at the reference size
+ */
+export function chooseLineSplit(
+  text: string,
+  maxLines: number,
+  box: { width: number; height: number },
+  measureWidth: (line: string) => number,
+  lineHeight: number
+): LineSplit {
+  const widthCache = new Map<string, number>();
+  const widthOf = (line: string) => {
+    let w = widthCache.get(line);
+    if (w === undefined) {
+      w = measureWidth(line);
+      widthCache.set(line, w);
+    }
+    return w;
+  };
+
+  const paragraphs = text
+    .split(/\r?\n/)
+    .map((p) => p.trim().split(/\s+/).filter(Boolean))
+    .filter((words) => words.length > 0);
+  if (paragraphs.length === 0) return { lines: [], scale: 0 };
+
+  // Best way to break one paragraph into exactly k lines: minimize the widest line (DP over word indices).
+  const splitMemo = new Map<string, { lines: string[]; width: number }>();
+  const bestSplit = (words: string[], start: number, k: number): { lines: string[]; width: number } => {
+    const key = `${words.join(' ')}|${start}|${k}`;
+    const memo = splitMemo.get(key);
+    if (memo) return memo;
+
+    let result: { lines: string[]; width: number };
+    if (k === 1 || words.length - start <= 1) {
+      const line = words.slice(start).join(' ');
+      result = { lines: [line], width: widthOf(line) };
+    } else {
+      result = { lines: [], width: Infinity };
+      for (let end = start + 1; end <= words.length - 1; end++) {
+        const line = words.slice(start, end).join(' ');
+        const rest = bestSplit(words, end, k - 1);
+        const width = Math.max(widthOf(line), rest.width);
+        if (width < result.width) result = { lines: [line, ...rest.lines], width };
+      }
+    }
+    splitMemo.set(key, result);
+    return result;
+  };
+
+  const fitScale = (lineCount: number, width: number) =>
+    Math.min((box.height * 0.99) / (lineCount * lineHeight), (box.width * 0.99) / (width || 1));
+
+  // Start with one line per paragraph, then hand extra lines to whichever paragraph is widest.
+  const linesPerParagraph = paragraphs.map(() => 1);
+  const splits = paragraphs.map((words) => bestSplit(words, 0, 1));
+  const current = (): LineSplit => {
+    const lines = splits.flatMap((s) => s.lines);
+    const width = Math.max(...splits.map((s) => s.width));
+    return { lines, scale: fitScale(lines.length, width) };
+  };
+
+  let best = current();
+  for (let total = paragraphs.length; total < maxLines; total++) {
+    let widest = -1;
+    for (let p = 0; p < paragraphs.length; p++) {
+      if (linesPerParagraph[p]! >= paragraphs[p]!.length) continue;
+      if (widest < 0 || splits[p]!.width > splits[widest]!.width) widest = p;
+    }
+    if (widest < 0) break;
+
+    linesPerParagraph[widest]!++;
+    splits[widest] = bestSplit(paragraphs[widest]!, 0, linesPerParagraph[widest]!);
+    const candidate = current();
+    if (candidate.scale > best.scale) best = candidate;
+  }
+
+  return best;
+}
+
+export interface TextFitOptions {
+  maxLines?: number;  // Wrap into up to this many lines (default 1)
+  fontSize?: number;  // Render at this size instead of the largest size that fits
+}
+
+/**
+ * Baseline of the last line. Best-fit text sits its descent on the box bottom;
+ * text forced to a fixed size is centered vertically in the box instead.
+ */
+export function getLastBaseline(
+  box: Box,
+  lineCount: number,
+  lineHeight: number,
+  descent: number,
+  fixedSize: boolean
+): number {
+  const slack = fixedSize ? Math.max(0, (box.height - lineCount * lineHeight) / 2) : 0;
+  return box.y + box.height - descent - slack;
+}
+
 export function calculateTextFit(
   text: string,
   fontFamily: string,
-  box: { x: number; y: number; width: number; height: number }
-): { fontSize: number; x: number; y: number } {
+  box: Box,
+  options: TextFitOptions = {}
+): { fontSize: number; fitFontSize: number; x: number; y: number; lines: Array<{ text: string; y: number }> } {
   // Handle empty text or invalid box
-  if (!text || box.width <= 0 || box.height <= 0) {
-    return { fontSize: 12, x: box.x + box.width / 2, y: box.y + box.height };
+  if (!text.trim() || box.width <= 0 || box.height <= 0) {
+    const y = box.y + box.height;
+    const fontSize = options.fontSize ?? 12;
+    return { fontSize, fitFontSize: 0, x: box.x + box.width / 2, y, lines: text.trim() ? [{ text: text.trim(), y }] : [] };
   }
 
   const refSize = 100;
-  const measured = measureTextSvg(text, fontFamily, refSize);
+  const refLine = measureTextSvg('Hg', fontFamily, refSize);
+  const refLineHeight = refLine.height > 0 ? refLine.height : refSize * 1.2;
 
-  // Validate measured dimensions to prevent division by zero or infinity
-  const measuredHeight = measured.height > 0 ? measured.height : refSize * 1.2;
-  const measuredWidth = measured.width > 0 ? measured.width : text.length * refSize * 0.6;
-
-  const heightScale = (box.height * 0.99) / measuredHeight;
-  const widthScale = (box.width * 0.99) / measuredWidth;
-  const scale = Math.min(heightScale, widthScale);
+  const split = chooseLineSplit(
+    text,
+    options.maxLines ?? 1,
+    box,
+    (line) => {
+      const measured = measureTextSvg(line, fontFamily, refSize);
+      // Validate measured dimensions to prevent division by zero or infinity
+      return measured.width > 0 ? measured.width : line.length * refSize * 0.6;
+    },
+    refLineHeight
+  );
 
   // Clamp font size to reasonable bounds (1px to 2000px)
-  const fontSize = Math.max(1, Math.min(refSize * scale, 2000));
+  const fitFontSize = Math.max(1, Math.min(refSize * split.scale, 2000));
+  const fontSize = options.fontSize ?? fitFontSize;
 
-  const final = measureTextSvg(text, fontFamily, fontSize);
+  const final = measureTextSvg(split.lines.join(' '), fontFamily, fontSize);
+  const lineHeight = final.height;
 
+  // Lines are stacked upwards from the last baseline so a single line sits exactly where it always has
   const x = box.x + box.width / 2;
-  const boxBottom = box.y + box.height;
-  const y = boxBottom - final.descent;
+  const lastBaseline = getLastBaseline(box, split.lines.length, lineHeight, final.descent, options.fontSize !== undefined);
+  const lines = split.lines.map((line, i) => ({
+    text: line,
+    y: lastBaseline - (split.lines.length - 1 - i) * lineHeight,
+  }));
+
+  return { fontSize, fitFontSize, x, y: lines[0]!.y, lines };
+}
 
-  return { fontSize, x, y };
+/**
+ * Fit a single line of text along a circular arc (see layoutTextOnArc).
+ */
+export function calculateArcTextFit(
+  text: string,
+  fontFamily: string,
+  arc: LabelArc,
+  options: { fontSize?: number } = {}
+): ArcTextLayout {
+  const refSize = 100;
+  const refLine = measureTextSvg('Hg', fontFamily, refSize);
+  const widths = new Map<string, number>();
+  const advance = (ch: string) => {
+    let w = widths.get(ch);
+    if (w === undefined) {
+      // getBBox is empty for whitespace, so spaces get a typical word-space width
+      w = ch.trim() ? measureTextSvg(ch, fontFamily, refSize).width / refSize : 0.3;
+      widths.set(ch, w);
+    }
+    return w;
+  };
+  return layoutTextOnArc(
+    text,
+    arc,
+    { advance, ascent: refLine.ascent / refSize, descent: refLine.descent / refSize },
+    options.fontSize
+  );
 }
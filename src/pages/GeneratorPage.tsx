@@ -1,10 +1,48 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { ScanResult } from '../lib/fsScan';
 import { scanFromDataTransfer } from '../lib/fsScan';
-import { computeGridLayout, computePanelCount } from '../lib/panelLayout';
-import { buildPanelSvgs, LAYER_PRESETS, getSvgFileDimensions, type LayerConfig } from '../lib/panelSvg';
-import { downloadPanelSvgs } from '../lib/exportPanels';
+import { computeOrientedCapacity, computeOrientedGridLayout, distributeItems, keepOutForPanel, type Distribution, type FillOrder, type KeepOutShape, type KeepOutZone, type LayoutMode, type OrientationMode } from '../lib/panelLayout';
+import { optimizePanelSize, parseStockSizes, type PanelOptimizeOptions, type PanelSizeCandidate } from '../lib/panelOptimizer';
+import { buildPanelSvgs, LAYER_PRESETS, fitArtToPanelCount, getCellSizeMm, getSvgFileDimensions, importKeepOutSvg, renderKeepOutOverlay, type BuildReport, type BuiltPanels, type LabelPlacement, type LayerConfig, type PanelBuildSettings } from '../lib/panelSvg';
+import { loadOutlineFont, type OutlineFont } from '../lib/fontOutline';
+import { DEFAULT_STROKE_FONT, STROKE_FONTS, type StrokeFontId } from '../lib/strokeFonts';
+import { downloadCombinedSvg, downloadPanelSvgs, downloadPanelsZip } from '../lib/exportPanels';
 import { getBasename, getBasenameNoExt, getNthParentFolderName, getParentDir } from '../lib/pathUtils';
+import { importCsvOrder, type CsvOrder } from '../lib/csvImport';
+import { createMaterialId, estimateMaterialUsage, loadMaterials, saveMaterials, type Material } from '../lib/materials';
+import { compilePathRegex, findUnknownTokens, renderLabelTemplate, resolvePositionTokens, usesTokens, type LabelPosition } from '../lib/labelTemplate';
+
+// Copies of one design (bigger jobs belong in an order CSV)
+const MAX_COPIES = 999;
+
+// Material editor form (raw input strings, like the other numeric fields)
+type MaterialDraft = {
+  id: string | null;  // null = new material
+  name: string;
+  widthMm: string;
+  heightMm: string;
+  thicknessMm: string;
+  costPerSheet: string;
+  gutterMm: string;   // Empty = keep the current gap
+  layerPreset: '' | 'original' | 'inverted';
+};
+
+const EMPTY_MATERIAL_DRAFT: MaterialDraft = {
+  id: null,
+  name: '',
+  widthMm: '',
+  heightMm: '',
+  thicknessMm: '',
+  costPerSheet: '',
+  gutterMm: '',
+  layerPreset: '',
+};
+
+// Keep-out zone rows: rectangles typed in (raw input strings), or outlines read from an SVG
+type KeepOutDraft = { id: number; panel: string } & (  // panel: '' = every panel, else 1-based
+  | { kind: 'rect'; x: string; y: string; width: string; height: string }
+  | { kind: 'outline'; name: string; shapes: KeepOutShape[] }
+);
 
 export default function GeneratorPage() {
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -34,8 +72,21 @@ export default function GeneratorPage() {
   const [artHeightMmRaw, setArtHeightMmRaw] = useState('50'); // SVG content height (auto-detected from files)
   const [aspectLocked, setAspectLocked] = useState(true);
   const [gutterMmRaw, setGutterMmRaw] = useState('0');
+  const [marginTopMmRaw, setMarginTopMmRaw] = useState('0');
+  const [marginRightMmRaw, setMarginRightMmRaw] = useState('0');
+  const [marginBottomMmRaw, setMarginBottomMmRaw] = useState('0');
+  const [marginLeftMmRaw, setMarginLeftMmRaw] = useState('0');
   const [labelHeightMmRaw, setLabelHeightMmRaw] = useState('10');
   const [paddingMmRaw, setPaddingMmRaw] = useState('0');
+  const [labelPlacement, setLabelPlacement] = useState<LabelPlacement>('below');
+  const [orientation, setOrientation] = useState<OrientationMode>('none');
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('grid');
+  const [fillOrder, setFillOrder] = useState<FillOrder>('rows');
+  const [distribution, setDistribution] = useState<Distribution>('fill');
+  const [targetPanelCountRaw, setTargetPanelCountRaw] = useState('');
+  const [labelArcOffsetMmRaw, setLabelArcOffsetMmRaw] = useState('1');
+  const [labelArcStartDegRaw, setLabelArcStartDegRaw] = useState('120');
+  const [labelArcSpanDegRaw, setLabelArcSpanDegRaw] = useState('120');
 
   // Parse raw values to numbers (empty or invalid → 0)
   const panelWidthMm = parseFloat(panelWidthMmRaw) || 0;
@@ -43,14 +94,22 @@ export default function GeneratorPage() {
   const artWidthMm = parseFloat(artWidthMmRaw) || 0;
   const artHeightMm = parseFloat(artHeightMmRaw) || 0;
   const gutterMm = parseFloat(gutterMmRaw) || 0;
+  const marginTopMm = parseFloat(marginTopMmRaw) || 0;
+  const marginRightMm = parseFloat(marginRightMmRaw) || 0;
+  const marginBottomMm = parseFloat(marginBottomMmRaw) || 0;
+  const marginLeftMm = parseFloat(marginLeftMmRaw) || 0;
   const labelHeightMm = parseFloat(labelHeightMmRaw) || 0;
   const paddingMm = parseFloat(paddingMmRaw) || 0;
+  const labelArcOffsetMm = parseFloat(labelArcOffsetMmRaw) || 0;
+  const labelArcStartDeg = parseFloat(labelArcStartDegRaw) || 0;
+  const labelArcSpanDeg = parseFloat(labelArcSpanDegRaw) || 0;
+  const targetPanelCount = Math.max(0, Math.floor(parseFloat(targetPanelCountRaw) || 0));
 
   // Store aspect ratio when dimensions change
   const aspectRatio = artWidthMm > 0 && artHeightMm > 0 ? artWidthMm / artHeightMm : 1;
 
-  // Cell size uses max dimension to ensure all SVGs fit
-  const cellSizeMm = Math.max(artWidthMm, artHeightMm) + (paddingMm * 2) + labelHeightMm;
+  // Cells follow the art's own width and height so wide or tall designs pack tightly
+  const { widthMm: cellWidthMm, heightMm: cellHeightMm } = getCellSizeMm(artWidthMm, artHeightMm, paddingMm, labelPlacement, labelHeightMm);
 
   // Handlers for art dimension changes with aspect lock
   const handleArtWidthChange = (rawValue: string) => {
@@ -76,30 +135,106 @@ export default function GeneratorPage() {
   // null = passthrough mode (show SVG exactly as-is with no modifications)
   const [layerSettings, setLayerSettings] = useState<LayerConfig[] | null>(null);
   const [layerPreset, setLayerPreset] = useState<'original' | 'inverted' | 'custom'>('original');
+  const [labelRenderMode, setLabelRenderMode] = useState<'text' | 'outline' | 'single-line'>('text');
+  const [strokeFontId, setStrokeFontId] = useState<StrokeFontId>(DEFAULT_STROKE_FONT);
+  const [labelStrokeWidthMmRaw, setLabelStrokeWidthMmRaw] = useState('0.2');
+  const labelStrokeWidthMm = parseFloat(labelStrokeWidthMmRaw) || 0.2;
+  const [labelMaxLinesRaw, setLabelMaxLinesRaw] = useState('1');
+  const labelMaxLines = Math.max(1, Math.floor(parseFloat(labelMaxLinesRaw) || 1));
+  const [labelSizing, setLabelSizing] = useState<'fit' | 'uniform-panel' | 'uniform-job'>('fit');
+  const [labelMinFontSizeMmRaw, setLabelMinFontSizeMmRaw] = useState('');
+  const [labelMaxFontSizeMmRaw, setLabelMaxFontSizeMmRaw] = useState('');
+  const labelMinFontSizeMm = parseFloat(labelMinFontSizeMmRaw) || undefined;
+  const labelMaxFontSizeMm = parseFloat(labelMaxFontSizeMmRaw) || undefined;
+  const [outlineFont, setOutlineFont] = useState<OutlineFont | null>(null);
+  const [fontError, setFontError] = useState<string | null>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
   const [genError, setGenError] = useState<string | null>(null);
   const [generatedPanels, setGeneratedPanels] = useState<string[] | null>(null);
+  const [buildReport, setBuildReport] = useState<BuildReport | null>(null);
+  const [panelUtilization, setPanelUtilization] = useState<number[] | null>(null);
+  const [invalidFileMode, setInvalidFileMode] = useState<'skip' | 'placeholder'>('skip');
   const [isExporting, setIsExporting] = useState(false);
   const [exportMessage, setExportMessage] = useState<string | null>(null);
   const [labelDepthByPath, setLabelDepthByPath] = useState<Record<string, 0 | 1>>({});
   const [labelOverrideByPath, setLabelOverrideByPath] = useState<Record<string, string>>({});
+  const [quantityByPath, setQuantityByPath] = useState<Record<string, number>>({});
+  // Labels for extra copies of a file, one per line starting at copy 2 (copy 1 uses labelOverrideByPath)
+  const [copyLabelsByPath, setCopyLabelsByPath] = useState<Record<string, string>>({});
   const [fileNameColWidthPx, setFileNameColWidthPx] = useState(320);
   const [isResizingCol, setIsResizingCol] = useState(false);
   const resizeStartRef = useRef<{ startX: number; startWidth: number } | null>(null);
-  const [labelSource, setLabelSource] = useState<'parentFolder' | 'fileName'>(() => {
+  const [labelSource, setLabelSource] = useState<'parentFolder' | 'fileName' | 'template'>(() => {
     try {
       const saved = localStorage.getItem('svgPanelGeneratorLabelSource');
-      return saved === 'fileName' ? 'fileName' : 'parentFolder';
+      return saved === 'fileName' || saved === 'template' ? saved : 'parentFolder';
     } catch {
       return 'parentFolder';
     }
   });
+  const [labelTemplate, setLabelTemplate] = useState(() => {
+    try {
+      return localStorage.getItem('svgPanelGeneratorLabelTemplate') ?? '{folder}';
+    } catch {
+      return '{folder}';
+    }
+  });
+  const [labelPathRegexRaw, setLabelPathRegexRaw] = useState('');
+  const [csvOrder, setCsvOrder] = useState<CsvOrder | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const csvInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Panel size optimizer
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [bedSizeRaw, setBedSizeRaw] = useState<{ width: string; height: string }>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('svgPanelGeneratorBedSize') ?? 'null');
+      if (saved && typeof saved.width === 'string' && typeof saved.height === 'string') return saved;
+    } catch {
+      // ignore
+    }
+    return { width: '600', height: '600' };
+  });
+  const [stockSizesRaw, setStockSizesRaw] = useState(() => {
+    try {
+      return localStorage.getItem('svgPanelGeneratorStockSizes') ?? '';
+    } catch {
+      return '';
+    }
+  });
+  const [stockOnly, setStockOnly] = useState(false);
+  const [optimizeGoal, setOptimizeGoal] = useState<PanelOptimizeOptions['goal']>('area');
+  const [minPanelSideMmRaw, setMinPanelSideMmRaw] = useState('100');
+  const [roundPanelToMm, setRoundPanelToMm] = useState(5);
+  const [sizeCandidates, setSizeCandidates] = useState<PanelSizeCandidate[] | null>(null);
+
+  // Material stock library
+  const [materials, setMaterials] = useState<Material[]>(loadMaterials);
+  const [materialId, setMaterialId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem('svgPanelGeneratorMaterial');
+    } catch {
+      return null;
+    }
+  });
+  const [showMaterialEditor, setShowMaterialEditor] = useState(false);
+  const [materialDraft, setMaterialDraft] = useState<MaterialDraft>(EMPTY_MATERIAL_DRAFT);
+
+  // Keep-out zones: parts of a remnant sheet that are already cut away or damaged
+  const [keepOutDrafts, setKeepOutDrafts] = useState<KeepOutDraft[]>([]);
+  const [keepOutError, setKeepOutError] = useState<string | null>(null);
+  const keepOutInputRef = useRef<HTMLInputElement | null>(null);
 
   // Export modal state
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportBaseName, setExportBaseName] = useState('panel');
   const [pendingExportPanels, setPendingExportPanels] = useState<string[] | null>(null);
+  const [pendingExportItems, setPendingExportItems] = useState<BuiltPanels['panelItems'] | null>(null);
+  const [exportFormat, setExportFormat] = useState<'zip' | 'files' | 'combined'>('zip');
+  const [includeManifest, setIncludeManifest] = useState(true);
+  const [combinedDirection, setCombinedDirection] = useState<'horizontal' | 'vertical'>('horizontal');
+  const [combinedSpacingMmRaw, setCombinedSpacingMmRaw] = useState('10');
   const exportInputRef = useRef<HTMLInputElement | null>(null);
 
   // Preview modal state
@@ -127,6 +262,77 @@ export default function GeneratorPage() {
     }
   }, [labelSource]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('svgPanelGeneratorLabelTemplate', labelTemplate);
+    } catch {
+      // ignore
+    }
+  }, [labelTemplate]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('svgPanelGeneratorBedSize', JSON.stringify(bedSizeRaw));
+      localStorage.setItem('svgPanelGeneratorStockSizes', stockSizesRaw);
+    } catch {
+      // ignore
+    }
+  }, [bedSizeRaw, stockSizesRaw]);
+
+  useEffect(() => {
+    saveMaterials(materials);
+  }, [materials]);
+
+  useEffect(() => {
+    try {
+      if (materialId) localStorage.setItem('svgPanelGeneratorMaterial', materialId);
+      else localStorage.removeItem('svgPanelGeneratorMaterial');
+    } catch {
+      // ignore
+    }
+  }, [materialId]);
+
+  const selectedMaterial = materials.find((m) => m.id === materialId) ?? null;
+
+  /**
+   * Switch to a material: its sheet becomes the panel, and its gap and layer preset apply if set.
+   */
+  const chooseMaterial = (id: string) => {
+    const material = materials.find((m) => m.id === id);
+    setMaterialId(material ? material.id : null);
+    if (!material) return;
+    setPanelWidthMmRaw(String(material.widthMm));
+    setPanelHeightMmRaw(String(material.heightMm));
+    if (material.gutterMm !== undefined) setGutterMmRaw(String(material.gutterMm));
+    if (material.layerPreset === 'original') {
+      setLayerSettings(null);
+      setLayerPreset('original');
+    } else if (material.layerPreset === 'inverted') {
+      setLayerSettings([...LAYER_PRESETS.inverted!]);
+      setLayerPreset('inverted');
+    }
+  };
+
+  const saveMaterialDraft = () => {
+    const d = materialDraft;
+    const material: Material = {
+      id: d.id ?? createMaterialId(d.name),
+      name: d.name.trim() || 'Untitled material',
+      widthMm: parseFloat(d.widthMm) || 0,
+      heightMm: parseFloat(d.heightMm) || 0,
+      thicknessMm: parseFloat(d.thicknessMm) || 0,
+      costPerSheet: parseFloat(d.costPerSheet) || 0,
+      gutterMm: d.gutterMm.trim() ? parseFloat(d.gutterMm) || 0 : undefined,
+      layerPreset: d.layerPreset || undefined,
+    };
+    if (material.widthMm <= 0 || material.heightMm <= 0) return;
+    setMaterials((list) => (list.some((m) => m.id === material.id) ? list.map((m) => (m.id === material.id ? material : m)) : [...list, material]));
+    setMaterialDraft(EMPTY_MATERIAL_DRAFT);
+  };
+
+  const labelPathRegex = useMemo(() => compilePathRegex(labelPathRegexRaw), [labelPathRegexRaw]);
+  const unknownTemplateTokens = useMemo(() => findUnknownTokens(labelTemplate), [labelTemplate]);
+
   const filteredFiles = useMemo(() => {
     const q = search.trim().toLowerCase();
     const files = scan?.files ?? [];
@@ -160,22 +366,47 @@ export default function GeneratorPage() {
     selectAllRef.current.indeterminate = !allFilteredSelected && someFilteredSelected;
   }, [allFilteredSelected, someFilteredSelected]);
 
-  const grid = useMemo(() => {
-    return computeGridLayout({ panelWidthMm, panelHeightMm, cellSizeMm, marginMm: 0, gutterMm });
-  }, [panelWidthMm, panelHeightMm, cellSizeMm, gutterMm]);
+  const keepOutZones = useMemo(
+    () =>
+      keepOutDrafts.flatMap((d): KeepOutZone[] => {
+        const panel = parseInt(d.panel, 10) > 0 ? parseInt(d.panel, 10) : undefined;
+        if (d.kind === 'outline') return d.shapes.map((shape) => ({ ...shape, panel }));
+        const width = parseFloat(d.width) || 0;
+        const height = parseFloat(d.height) || 0;
+        return width > 0 && height > 0 ? [{ kind: 'rect', x: parseFloat(d.x) || 0, y: parseFloat(d.y) || 0, width, height, panel }] : [];
+      }),
+    [keepOutDrafts]
+  );
 
-  const panelCount = useMemo(() => {
-    return computePanelCount(selectedFiles.length, grid.capacityPerPanel);
-  }, [selectedFiles.length, grid.capacityPerPanel]);
+  // Grid of a panel with only the zones that apply to every panel
+  const grid = useMemo(() => {
+    const rotatedCell = getCellSizeMm(artHeightMm, artWidthMm, paddingMm, labelPlacement, labelHeightMm);
+    return computeOrientedGridLayout(
+      {
+        panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, marginMm: 0, marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, gutterMm, layoutMode, fillOrder,
+        keepOut: keepOutForPanel(keepOutZones),
+      },
+      { cellWidthMm: rotatedCell.widthMm, cellHeightMm: rotatedCell.heightMm },
+      orientation
+    );
+  }, [panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, gutterMm, artWidthMm, artHeightMm, paddingMm, labelPlacement, labelHeightMm, orientation, layoutMode, fillOrder, keepOutZones]);
 
   const layoutWarning = useMemo(() => {
     if (panelWidthMm <= 0 || panelHeightMm <= 0) return 'Panel width/height must be > 0.';
     if (artWidthMm <= 0 || artHeightMm <= 0) return 'Art width/height must be > 0.';
     if (labelHeightMm < 0) return 'Label height must be >= 0.';
     if (paddingMm < 0) return 'Padding must be >= 0.';
-    if (grid.capacityPerPanel <= 0) return 'Grid does not fit: increase panel size, reduce margins/gutter, or reduce art size.';
+    if (Math.min(marginTopMm, marginRightMm, marginBottomMm, marginLeftMm) < 0) return 'Margins must be >= 0.';
+    if (marginLeftMm + marginRightMm >= panelWidthMm || marginTopMm + marginBottomMm >= panelHeightMm) {
+      return 'Margins leave no room on the panel.';
+    }
+    if (layoutMode !== 'nest' && layoutMode !== 'contour' && grid.capacityPerPanel <= 0) return 'Grid does not fit: increase panel size, reduce margins/gutter, or reduce art size.';
+    if (layoutMode === 'hex' && Math.abs((grid.placements[0]?.width ?? 0) - (grid.placements[0]?.height ?? 0)) > 1e-6) {
+      return 'Staggered rows only pack tighter with square cells: put labels over the art, on an arc or on a back panel.';
+    }
+    if (labelRenderMode === 'outline' && !outlineFont) return 'Outline labels need a font file; labels will be emitted as text until one is loaded.';
     return null;
-  }, [panelWidthMm, panelHeightMm, artWidthMm, artHeightMm, labelHeightMm, paddingMm, grid.capacityPerPanel]);
+  }, [panelWidthMm, panelHeightMm, artWidthMm, artHeightMm, labelHeightMm, paddingMm, marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, grid, layoutMode, labelRenderMode, outlineFont]);
 
   /**
    * Process scan result and update state.
@@ -185,9 +416,15 @@ export default function GeneratorPage() {
     setRootFolder(result.root);
     setSelectedPaths(new Set());
     setGeneratedPanels(null);
+    setBuildReport(null);
+    setPanelUtilization(null);
     setLastGenerationKey(null);
     setLabelDepthByPath({});
     setLabelOverrideByPath({});
+    setQuantityByPath({});
+    setCopyLabelsByPath({});
+    setCsvOrder(null);
+    setCsvError(null);
 
     // Auto-size art based on first SVG file (exact dimensions)
     // Measures actual content bounds and converts to mm at 72 DPI (Adobe/xTool standard)
@@ -200,11 +437,12 @@ export default function GeneratorPage() {
         setArtHeightMmRaw(String(newArtHeight));
 
         // Calculate the minimum cell size needed for this art
-        // Cell size = max(artWidth, artHeight) + padding*2 + labelHeight
+        // Cell size = art + padding*2 + label space
         // Use current padding and label height values
         const currentPadding = parseFloat(paddingMmRaw) || 0;
         const currentLabelHeight = parseFloat(labelHeightMmRaw) || 0;
-        const minCellSize = Math.max(newArtWidth, newArtHeight) + (currentPadding * 2) + currentLabelHeight;
+        const minCell = getCellSizeMm(newArtWidth, newArtHeight, currentPadding, labelPlacement, currentLabelHeight);
+        const minCellSize = Math.max(minCell.widthMm, minCell.heightMm);
 
         // If the art is too big for the current panel, scale up the panel
         const currentPanelWidth = parseFloat(panelWidthMmRaw) || 0;
@@ -294,6 +532,95 @@ export default function GeneratorPage() {
 
   const clearSelection = () => setSelectedPaths(new Set());
 
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file || !scan) return;
+    setCsvError(null);
+    try {
+      const order = await importCsvOrder(file, scan.files);
+      setCsvOrder(order);
+      // Tick the ordered designs so the file list shows what the order uses
+      setSelectedPaths(new Set(order.entries.map((e) => e.file.path)));
+      setGeneratedPanels(null);
+      setLastGenerationKey(null);
+    } catch (e) {
+      setCsvOrder(null);
+      setCsvError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const nextKeepOutId = (drafts: KeepOutDraft[]) => Math.max(0, ...drafts.map((d) => d.id)) + 1;
+
+  const addKeepOutRect = () =>
+    setKeepOutDrafts((drafts) => [...drafts, { id: nextKeepOutId(drafts), panel: '', kind: 'rect', x: '0', y: '0', width: '50', height: '50' }]);
+
+  const updateKeepOut = (id: number, field: 'panel' | 'x' | 'y' | 'width' | 'height', value: string) =>
+    setKeepOutDrafts((drafts) => drafts.map((d) => (d.id === id ? ({ ...d, [field]: value } as KeepOutDraft) : d)));
+
+  const removeKeepOut = (id: number) => setKeepOutDrafts((drafts) => drafts.filter((d) => d.id !== id));
+
+  const handleKeepOutFile = async (file: File | undefined) => {
+    if (!file) return;
+    setKeepOutError(null);
+    try {
+      const shapes = await importKeepOutSvg(file);
+      setKeepOutDrafts((drafts) => [...drafts, { id: nextKeepOutId(drafts), panel: '', kind: 'outline', name: file.name, shapes }]);
+    } catch (e) {
+      setKeepOutError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleOutlineFontFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFontError(null);
+    try {
+      setOutlineFont(await loadOutlineFont(file));
+    } catch (e) {
+      setOutlineFont(null);
+      setFontError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const buildSettings = useMemo<PanelBuildSettings>(() => ({
+    panelWidthMm,
+    panelHeightMm,
+    cellWidthMm,
+    cellHeightMm,
+    orientation,
+    layoutMode,
+    fillOrder,
+    distribution,
+    targetPanelCount,
+    artWidthMm,
+    artHeightMm,
+    marginMm: 0,
+    marginTopMm,
+    marginRightMm,
+    marginBottomMm,
+    marginLeftMm,
+    gutterMm,
+    labelHeightMm,
+    paddingMm,
+    showCellBorders,
+    labelPlacement,
+    labelArcOffsetMm,
+    labelArcStartDeg,
+    labelArcSpanDeg,
+    removeOrnamentHole,
+    addRoundBacker,
+    roundBackerStrokeWidth,
+    layerSettings,
+    invalidFileMode,
+    labelRenderMode: labelRenderMode === 'outline' && !outlineFont ? 'text' : labelRenderMode,
+    labelOutlineFont: outlineFont,
+    strokeFontId,
+    labelStrokeWidthMm,
+    labelMaxLines,
+    labelSizing,
+    labelMinFontSizeMm,
+    labelMaxFontSizeMm,
+    keepOutZones,
+  }), [panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, orientation, layoutMode, fillOrder, distribution, targetPanelCount, artWidthMm, artHeightMm, marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, gutterMm, labelHeightMm, paddingMm, showCellBorders, labelPlacement, labelArcOffsetMm, labelArcStartDeg, labelArcSpanDeg, removeOrnamentHole, addRoundBacker, roundBackerStrokeWidth, layerSettings, invalidFileMode, labelRenderMode, outlineFont, strokeFontId, labelStrokeWidthMm, labelMaxLines, labelSizing, labelMinFontSizeMm, labelMaxFontSizeMm, keepOutZones]);
+
   const generatePanels = async () => {
     if (!scan?.fileMap) {
       setGenError('No files loaded. Please select a folder first.');
@@ -302,10 +629,15 @@ export default function GeneratorPage() {
 
     // Compute a key from all generation parameters to detect if anything changed
     const currentKey = JSON.stringify({
-      files: selectedFilesForOutput.map(f => f.path),
-      panelWidthMm, panelHeightMm, cellSizeMm, artWidthMm, artHeightMm,
+      files: selectedFilesForOutput.map(f => [f.path, f.parentFolder, f.labelFromTemplate]),
+      panelWidthMm, panelHeightMm, cellWidthMm, cellHeightMm, orientation, layoutMode, fillOrder, distribution, targetPanelCount, artWidthMm, artHeightMm,
+      marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, keepOutZones,
       gutterMm, labelHeightMm, paddingMm, showCellBorders,
-      removeOrnamentHole, addRoundBacker, roundBackerStrokeWidth, layerSettings,
+      labelPlacement, labelArcOffsetMm, labelArcStartDeg, labelArcSpanDeg,
+      removeOrnamentHole, addRoundBacker, roundBackerStrokeWidth, layerSettings, invalidFileMode,
+      labelRenderMode, strokeFontId, labelStrokeWidthMm, labelMaxLines,
+      labelSizing, labelMinFontSizeMm, labelMaxFontSizeMm,
+      outlineFont: labelRenderMode === 'outline' ? outlineFont?.source ?? null : null,
     });
 
     // If panels are already generated with the same parameters, just show the modal
@@ -317,28 +649,20 @@ export default function GeneratorPage() {
     setGenError(null);
     setIsGenerating(true);
     try {
-      const built = await buildPanelSvgs(selectedFilesForOutput, {
-        panelWidthMm,
-        panelHeightMm,
-        cellSizeMm,
-        artWidthMm,
-        artHeightMm,
-        marginMm: 0,
-        gutterMm,
-        labelHeightMm,
-        paddingMm,
-        showCellBorders,
-        removeOrnamentHole,
-        addRoundBacker,
-        roundBackerStrokeWidth,
-        layerSettings,
-      }, scan.fileMap);
+      const built = await buildPanelSvgs(selectedFilesForOutput, buildSettings, scan.fileMap);
       setGeneratedPanels(built.panelSvgs);
+      setBuildReport(built.report);
+      setPanelUtilization(built.utilization ?? null);
       setLastGenerationKey(currentKey);
       setPreviewModalIndex(0);
-      setShowPreviewModal(true);
+      if (built.panelSvgs.length > 0) {
+        setShowPreviewModal(true);
+      } else {
+        setGenError('No panels generated: none of the selected files could be loaded. See the build report below.');
+      }
     } catch (e) {
       setGeneratedPanels(null);
+      setPanelUtilization(null);
       setLastGenerationKey(null);
       setGenError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -357,23 +681,9 @@ export default function GeneratorPage() {
     setIsExporting(true);
     try {
       // Always rebuild so export matches current selection/settings.
-      const built = await buildPanelSvgs(selectedFilesForOutput, {
-        panelWidthMm,
-        panelHeightMm,
-        cellSizeMm,
-        artWidthMm,
-        artHeightMm,
-        marginMm: 0,
-        gutterMm,
-        labelHeightMm,
-        paddingMm,
-        showCellBorders,
-        removeOrnamentHole,
-        addRoundBacker,
-        roundBackerStrokeWidth,
-        layerSettings,
-      }, scan.fileMap);
+      const built = await buildPanelSvgs(selectedFilesForOutput, buildSettings, scan.fileMap);
 
+      setBuildReport(built.report);
       if (!built.panelSvgs.length) {
         setExportMessage('Nothing to export (no panels generated).');
         setIsExporting(false);
@@ -382,6 +692,7 @@ export default function GeneratorPage() {
 
       // Show filename modal
       setPendingExportPanels(built.panelSvgs);
+      setPendingExportItems(built.panelItems);
       setShowExportModal(true);
       setGeneratedPanels(built.panelSvgs);
       // Focus the input when modal opens
@@ -399,13 +710,36 @@ export default function GeneratorPage() {
     const baseName = exportBaseName.trim() || 'panel';
 
     try {
-      // Download all files
-      const fileNames = await downloadPanelSvgs(pendingExportPanels, baseName);
-      setExportMessage(`Downloaded ${fileNames.length} panel(s): ${fileNames.join(', ')}`);
+      if (exportFormat === 'zip') {
+        // Single archive: avoids browsers blocking/dropping many sequential downloads
+        const manifest = includeManifest
+          ? {
+              name: baseName,
+              createdAt: new Date().toISOString(),
+              panelWidthMm,
+              panelHeightMm,
+              panelCount: pendingExportPanels.length,
+              panels: pendingExportItems ?? [],
+            }
+          : undefined;
+        const fileNames = downloadPanelsZip(pendingExportPanels, baseName, { manifest });
+        setExportMessage(`Downloaded ${baseName}.zip with ${fileNames.length} panel(s): ${fileNames.join(', ')}`);
+      } else if (exportFormat === 'combined') {
+        const fileName = downloadCombinedSvg(pendingExportPanels, baseName, {
+          direction: combinedDirection,
+          spacingMm: parseFloat(combinedSpacingMmRaw) || 0,
+        });
+        setExportMessage(`Downloaded ${pendingExportPanels.length} panel(s) as layers in ${fileName}`);
+      } else {
+        // Download all files
+        const fileNames = await downloadPanelSvgs(pendingExportPanels, baseName);
+        setExportMessage(`Downloaded ${fileNames.length} panel(s): ${fileNames.join(', ')}`);
+      }
 
       // Close modal and reset
       setShowExportModal(false);
       setPendingExportPanels(null);
+      setPendingExportItems(null);
     } catch (e) {
       setGenError(e instanceof Error ? e.message : String(e));
     } finally {
@@ -416,6 +750,7 @@ export default function GeneratorPage() {
   const cancelExport = () => {
     setShowExportModal(false);
     setPendingExportPanels(null);
+    setPendingExportItems(null);
     setIsExporting(false);
     setExportMessage('Export cancelled.');
   };
@@ -423,6 +758,9 @@ export default function GeneratorPage() {
   const getEffectiveLabelForPath = (filePath: string, fallback: string) => {
     const override = labelOverrideByPath[filePath];
     if (override && override.trim()) return override.trim();
+    if (labelSource === 'template') {
+      return renderLabelTemplate(labelTemplate, { path: filePath }, labelPathRegex.regex) || fallback;
+    }
     if (labelSource === 'fileName') {
       return getBasenameNoExt(filePath) || fallback;
     }
@@ -438,12 +776,133 @@ export default function GeneratorPage() {
     return !!up;
   };
 
+  // One entry per output copy, with its own label if it has one.
+  // An imported order replaces the selection, each copy taking the row's label.
+  const outputCopies = useMemo(() => {
+    if (csvOrder) {
+      return csvOrder.entries.flatMap((entry) => Array.from({ length: entry.quantity }, () => ({ file: entry.file, label: entry.label })));
+    }
+    return selectedFiles.flatMap((f) => {
+      const copyLabels = (copyLabelsByPath[f.path] ?? '').split('\n');
+      return Array.from({ length: quantityByPath[f.path] ?? 1 }, (_, copy) => ({
+        file: f,
+        label: copy > 0 ? (copyLabels[copy - 1]?.trim() ?? '') : '',
+      }));
+    });
+  }, [selectedFiles, csvOrder, quantityByPath, copyLabelsByPath]);
+
+  // Nested layouts only know their panel count after measuring every file
+  const isNested = layoutMode === 'nest' || layoutMode === 'contour';
+  const layoutFits = isNested || grid.capacityPerPanel > 0;
+
+  // 'Fit to N panels' shrinks the art; the grid it yields is what the build will use
+  const artFit = useMemo(
+    () => (isNested ? null : fitArtToPanelCount(buildSettings, outputCopies.length)),
+    [isNested, buildSettings, outputCopies.length]
+  );
+  // One grid per panel with its own keep-out zones, then the grid every later panel uses
+  const layoutGrids = useMemo(() => artFit?.grids ?? [grid], [artFit, grid]);
+  const panelSizes = useMemo(
+    () => distributeItems(outputCopies.length, layoutGrids.map((g) => g.capacityPerPanel), distribution),
+    [outputCopies.length, layoutGrids, distribution]
+  );
+  const panelCount = panelSizes.length;
+
+  // Cost of the job on the chosen material; nested layouts only know their sheet count after Preview
+  const materialUsage = !selectedMaterial
+    ? null
+    : isNested
+      ? { sheets: null }
+      : estimateMaterialUsage(
+          selectedMaterial,
+          panelCount,
+          outputCopies.length * (artFit?.settings.artWidthMm ?? artWidthMm) * (artFit?.settings.artHeightMm ?? artHeightMm)
+        );
+
+  // Keep-out zones drawn over the previewed panel; back panels are mirrored, so only fronts get them
+  const previewKeepOut =
+    !generatedPanels || (labelPlacement === 'back-panel' && previewModalIndex >= generatedPanels.length / 2)
+      ? ''
+      : renderKeepOutOverlay(keepOutForPanel(keepOutZones, previewModalIndex));
+
+  // Template labels keep their position tokens; the build fills them in from where each copy lands
   const selectedFilesForOutput = useMemo(() => {
-    return selectedFiles.map((f) => ({
-      ...f,
-      parentFolder: getEffectiveLabelForPath(f.path, f.parentFolder),
-    }));
-  }, [selectedFiles, labelDepthByPath, labelOverrideByPath, labelSource]);
+    return outputCopies.map(({ file: f, label }) => {
+      const templateLabel = !label && !labelOverrideByPath[f.path]?.trim() && labelSource === 'template'
+        ? renderLabelTemplate(labelTemplate, { path: f.path, keepPositionTokens: true }, labelPathRegex.regex)
+        : '';
+      return {
+        ...f,
+        parentFolder: label || templateLabel || getEffectiveLabelForPath(f.path, f.parentFolder),
+        labelFromTemplate: templateLabel !== '',
+      };
+    });
+  }, [outputCopies, labelDepthByPath, labelOverrideByPath, labelSource, labelTemplate, labelPathRegex]);
+
+  // Estimated position of each output copy, for the label column before Preview: assumes every
+  // file loads, and nested layouts (placed by size, without rows or columns) only get an index
+  const getLabelPosition = (i: number): Partial<LabelPosition> => {
+    if (isNested) return { index: i + 1 };
+    let panel = 0;
+    let cell = i;
+    while (panel < panelSizes.length && cell >= panelSizes[panel]!) cell -= panelSizes[panel++]!;
+    if (panel >= panelSizes.length) return { index: i + 1 };
+    const placement = layoutGrids[Math.min(panel, layoutGrids.length - 1)]!.placements[cell];
+    return {
+      index: i + 1,
+      panel: panel + 1,
+      row: (placement?.row ?? 0) + 1,
+      col: (placement?.col ?? 0) + 1,
+      cell: cell + 1,
+    };
+  };
+
+  /**
+   * Try panel sizes up to the bed size with the current art, label and spacing settings.
+   * Nested layouts are estimated with the fixed-cell grid; keep-out zones are left out.
+   */
+  const findPanelSizes = () => {
+    const rotatedCell = getCellSizeMm(artHeightMm, artWidthMm, paddingMm, labelPlacement, labelHeightMm);
+    const cells = [{ widthMm: cellWidthMm, heightMm: cellHeightMm }];
+    if (orientation !== 'none') cells.push(rotatedCell);
+    setSizeCandidates(
+      optimizePanelSize(
+        {
+          itemCount: outputCopies.length,
+          itemAreaMm2: artWidthMm * artHeightMm,
+          cells,
+          gutterMm,
+          margins: { top: marginTopMm, right: marginRightMm, bottom: marginBottomMm, left: marginLeftMm },
+          staggered: layoutMode === 'hex',
+          capacityFor: (widthMm, heightMm) =>
+            computeOrientedCapacity(
+              { panelWidthMm: widthMm, panelHeightMm: heightMm, cellWidthMm, cellHeightMm, marginMm: 0, marginTopMm, marginRightMm, marginBottomMm, marginLeftMm, gutterMm, layoutMode },
+              { cellWidthMm: rotatedCell.widthMm, cellHeightMm: rotatedCell.heightMm },
+              orientation
+            ),
+        },
+        {
+          maxWidthMm: parseFloat(bedSizeRaw.width) || 0,
+          maxHeightMm: parseFloat(bedSizeRaw.height) || 0,
+          minSideMm: parseFloat(minPanelSideMmRaw) || 0,
+          goal: optimizeGoal,
+          stockSizes: parseStockSizes(stockSizesRaw),
+          stockOnly,
+          roundUpMm: roundPanelToMm,
+        }
+      )
+    );
+  };
+
+  const outputLabelByPath = useMemo(() => {
+    // First copy of each file; later copies carry their own labels
+    const labels = new Map<string, string>();
+    selectedFilesForOutput.forEach((f, i) => {
+      if (labels.has(f.path)) return;
+      labels.set(f.path, f.labelFromTemplate ? resolvePositionTokens(f.parentFolder, getLabelPosition(i)) : f.parentFolder);
+    });
+    return labels;
+  }, [selectedFilesForOutput, isNested, layoutGrids, panelSizes]);
 
   // Column resize handlers
   const handleColResizeStart = (e: React.MouseEvent) => {
@@ -555,6 +1014,19 @@ export default function GeneratorPage() {
                     >
                       File name
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => setLabelSource('template')}
+                      className={`px-2.5 py-1 text-xs font-medium ${
+                        labelSource === 'template'
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-slate-800 hover:bg-slate-100 dark:text-slate-200 dark:hover:bg-slate-900/60'
+                      }`}
+                      aria-pressed={labelSource === 'template'}
+                      title="Build labels from a template with tokens"
+                    >
+                      Template
+                    </button>
                   </div>
                 </div>
 
@@ -566,8 +1038,106 @@ export default function GeneratorPage() {
                 >
                   Clear
                 </button>
+                <input
+                  ref={csvInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleCsvFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => csvInputRef.current?.click()}
+                  className="shrink-0 rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-medium text-slate-800 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                  disabled={!scan?.files.length}
+                  title="Import an order CSV: design file, label, quantity"
+                >
+                  Import CSV
+                </button>
               </div>
 
+              {csvError && <p className="mt-2 text-xs text-red-600 dark:text-red-300">{csvError}</p>}
+              {csvOrder && (
+                <div className="mt-2 rounded-lg border border-slate-200 bg-white p-2 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950/40 dark:text-slate-300">
+                  <div className="flex items-center justify-between gap-2">
+                    <span>
+                      Order <span className="font-medium">{csvOrder.name}</span>: {csvOrder.entries.length} row(s),{' '}
+                      <span className="font-medium">{csvOrder.totalCopies}</span> copies. The order replaces the ticked selection.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setCsvOrder(null)}
+                      className="shrink-0 rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                    >
+                      Clear order
+                    </button>
+                  </div>
+                  {csvOrder.problems.length > 0 && (
+                    <div className="mt-2 rounded border border-amber-300 bg-amber-50 p-2 text-amber-900 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+                      <div className="font-semibold">{csvOrder.problems.length} row(s) not used</div>
+                      <table className="mt-1 w-full table-fixed border-collapse text-left">
+                        <thead>
+                          <tr className="border-b border-amber-300 dark:border-amber-900">
+                            <th className="w-12 py-1 pr-2 font-medium">Row</th>
+                            <th className="w-2/5 py-1 pr-2 font-medium">File</th>
+                            <th className="py-1 font-medium">Problem</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {csvOrder.problems.map((problem) => (
+                            <tr key={problem.row} className="border-b border-amber-200 align-top last:border-0 dark:border-amber-900/50">
+                              <td className="py-1 pr-2 tabular-nums">{problem.row}</td>
+                              <td className="break-words py-1 pr-2 font-medium">{problem.value || '(empty)'}</td>
+                              <td className="break-words py-1">{problem.reason}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {labelSource === 'template' && (
+                <div className="mt-2 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      value={labelTemplate}
+                      onChange={(e) => setLabelTemplate(e.target.value)}
+                      placeholder="{folder:1} – {name} #{index}"
+                      aria-label="Label template"
+                      className="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-1.5 font-mono text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    />
+                    <input
+                      value={labelPathRegexRaw}
+                      onChange={(e) => setLabelPathRegexRaw(e.target.value)}
+                      placeholder="Path regex for {match:N}"
+                      aria-label="Path regex"
+                      className="w-48 rounded-lg border border-slate-300 bg-white px-3 py-1.5 font-mono text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    />
+                  </div>
+                  <p className="text-[11px] text-slate-400 dark:text-slate-500">
+                    Tokens: {'{folder}'} {'{folder:N}'} {'{name}'} {'{file}'} {'{match:N}'} {'{index}'} {'{index:3}'} {'{panel}'} {'{row}'} {'{col}'} {'{cell}'}
+                  </p>
+                  {labelPathRegex.error && (
+                    <p className="text-[11px] text-red-600 dark:text-red-300">Invalid regex: {labelPathRegex.error}</p>
+                  )}
+                  {usesTokens(labelTemplate, ['index', 'panel', 'row', 'col', 'cell']) && (
+                    <p className={`text-[11px] ${isNested ? 'text-amber-700 dark:text-amber-300' : 'text-slate-400 dark:text-slate-500'}`}>
+                      {isNested
+                        ? 'Nested layouts: {panel} and {cell} are known after Preview; {row} and {col} print "?".'
+                        : 'Positions in the file list are estimates; Preview uses where each file lands (after any skipped files).'}
+                    </p>
+                  )}
+                  {unknownTemplateTokens.length > 0 && (
+                    <p className="text-[11px] text-amber-700 dark:text-amber-300">Unknown tokens: {unknownTemplateTokens.join(' ')}</p>
+                  )}
+                </div>
+              )}
+
               <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
                 <span>
                   <span className="text-slate-600 dark:text-slate-500">Folder:</span>{' '}
@@ -637,6 +1207,7 @@ export default function GeneratorPage() {
                             title="Drag to resize column"
                           />
                         </th>
+                        <th className="w-16 px-3 py-2">Qty</th>
                         <th className="px-3 py-2">Label</th>
                       </tr>
                     </thead>
@@ -659,10 +1230,27 @@ export default function GeneratorPage() {
                               {f.name}
                             </div>
                           </td>
+                          <td className="px-3 py-2 align-top">
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_COPIES}
+                              step={1}
+                              value={quantityByPath[f.path] ?? 1}
+                              onChange={(e) => {
+                                const qty = Math.min(MAX_COPIES, Math.max(1, Math.floor(parseFloat(e.target.value) || 1)));
+                                setQuantityByPath((prev) => ({ ...prev, [f.path]: qty }));
+                              }}
+                              className="w-12 rounded border border-slate-200 bg-white px-1 py-1 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-100"
+                              title="Number of copies of this design"
+                              aria-label="Quantity"
+                            />
+                          </td>
                           <td className="px-3 py-2 align-top">
                             <div className="flex items-center justify-between gap-2">
-                              <input
-                                value={labelOverrideByPath[f.path] ?? getEffectiveLabelForPath(f.path, f.parentFolder)}
+                              <textarea
+                                value={labelOverrideByPath[f.path] ?? outputLabelByPath.get(f.path) ?? getEffectiveLabelForPath(f.path, f.parentFolder)}
+                                rows={(labelOverrideByPath[f.path] ?? '').split('\n').length}
                                 onChange={(e) => {
                                   const v = e.target.value;
                                   setLabelOverrideByPath((prev) => ({ ...prev, [f.path]: v }));
@@ -678,8 +1266,8 @@ export default function GeneratorPage() {
                                     return { ...prev, [f.path]: v };
                                   });
                                 }}
-                                className="min-w-0 flex-1 rounded border border-slate-200 bg-white px-2 py-1 text-sm text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-100"
-                                title="Edit the label printed under this SVG"
+                                className="min-w-0 flex-1 resize-none rounded border border-slate-200 bg-white px-2 py-1 text-sm text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-100"
+                                title="Edit the label printed under this SVG (Enter for a line break)"
                                 aria-label="Label"
                               />
                               <span className="flex items-center gap-1">
@@ -692,14 +1280,14 @@ export default function GeneratorPage() {
                                     }))
                                   }
                                   disabled={
-                                    labelSource === 'fileName' ||
+                                    labelSource !== 'parentFolder' ||
                                     !canMoveLabelUp(f.path) ||
                                     (labelDepthByPath[f.path] ?? 0) === 1
                                   }
                                   className="rounded border border-slate-300 bg-white px-1.5 py-0.5 text-xs text-slate-800 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
                                   title={
-                                    labelSource === 'fileName'
-                                      ? 'Label source is File name (folder depth disabled)'
+                                    labelSource !== 'parentFolder'
+                                      ? 'Label source is not Parent folder (folder depth disabled)'
                                       : 'Use a higher parent folder name as the default label'
                                   }
                                   aria-label="Move label up"
@@ -714,11 +1302,11 @@ export default function GeneratorPage() {
                                       [f.path]: 0,
                                     }))
                                   }
-                                  disabled={labelSource === 'fileName' || (labelDepthByPath[f.path] ?? 0) === 0}
+                                  disabled={labelSource !== 'parentFolder' || (labelDepthByPath[f.path] ?? 0) === 0}
                                   className="rounded border border-slate-300 bg-white px-1.5 py-0.5 text-xs text-slate-800 hover:bg-slate-100 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
                                   title={
-                                    labelSource === 'fileName'
-                                      ? 'Label source is File name (folder depth disabled)'
+                                    labelSource !== 'parentFolder'
+                                      ? 'Label source is not Parent folder (folder depth disabled)'
                                       : 'Use the immediate parent folder name as the default label'
                                   }
                                   aria-label="Move label down"
@@ -727,6 +1315,26 @@ export default function GeneratorPage() {
                                 </button>
                               </span>
                             </div>
+                            {(quantityByPath[f.path] ?? 1) > 1 && (
+                              <div className="mt-1">
+                                <textarea
+                                  value={copyLabelsByPath[f.path] ?? ''}
+                                  onChange={(e) => {
+                                    const v = e.target.value;
+                                    setCopyLabelsByPath((prev) => ({ ...prev, [f.path]: v }));
+                                  }}
+                                  rows={Math.min((quantityByPath[f.path] ?? 1) - 1, 4)}
+                                  placeholder={`Labels for copies 2-${quantityByPath[f.path]}, one per line (blank: same label)`}
+                                  className="w-full resize-y rounded border border-slate-200 bg-white px-2 py-0.5 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-100"
+                                  aria-label="Labels for the other copies, one per line"
+                                />
+                                {(copyLabelsByPath[f.path] ?? '').trimEnd().split('\n').length > (quantityByPath[f.path] ?? 1) - 1 && (
+                                  <p className="text-[11px] text-amber-700 dark:text-amber-300">
+                                    More lines than copies; lines past copy {quantityByPath[f.path]} are ignored
+                                  </p>
+                                )}
+                              </div>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -768,6 +1376,145 @@ export default function GeneratorPage() {
               <div>
                 <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Panel Size</h3>
                 <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">Total size of your output file (your laser bed)</p>
+                <div className="mt-2 flex items-center gap-2">
+                  <span className="text-xs font-medium text-slate-600 dark:text-slate-400">Material</span>
+                  <select
+                    value={selectedMaterial?.id ?? ''}
+                    onChange={(e) => chooseMaterial(e.target.value)}
+                    className="min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                  >
+                    <option value="">None</option>
+                    {materials.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name} – {m.widthMm}x{m.heightMm} mm
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setShowMaterialEditor((v) => !v)}
+                    aria-expanded={showMaterialEditor}
+                    className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60 py-1"
+                  >
+                    Edit list
+                  </button>
+                </div>
+                {showMaterialEditor && (
+                  <div className="mt-2 space-y-2 rounded-lg border border-slate-200 bg-white p-2 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950/40 dark:text-slate-300">
+                    {materials.length === 0 && <p className="text-slate-400 dark:text-slate-500">No materials yet.</p>}
+                    {materials.map((m) => (
+                      <div key={m.id} className="flex items-center justify-between gap-2">
+                        <span className="min-w-0 truncate">
+                          <span className="font-medium">{m.name}</span> · {m.widthMm}x{m.heightMm} mm · {m.thicknessMm} mm thick ·{' '}
+                          {m.costPerSheet.toFixed(2)} per sheet
+                        </span>
+                        <span className="flex shrink-0 gap-1">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setMaterialDraft({
+                                id: m.id,
+                                name: m.name,
+                                widthMm: String(m.widthMm),
+                                heightMm: String(m.heightMm),
+                                thicknessMm: String(m.thicknessMm),
+                                costPerSheet: String(m.costPerSheet),
+                                gutterMm: m.gutterMm !== undefined ? String(m.gutterMm) : '',
+                                layerPreset: m.layerPreset ?? '',
+                              })
+                            }
+                            className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setMaterials((list) => list.filter((x) => x.id !== m.id));
+                              if (materialId === m.id) setMaterialId(null);
+                            }}
+                            className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                          >
+                            Delete
+                          </button>
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-1.5 border-t border-slate-200 pt-2 dark:border-slate-800">
+                      <input
+                        type="text"
+                        value={materialDraft.name}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, name: e.target.value }))}
+                        placeholder="Name"
+                        aria-label="Name"
+                        className="flex-1 min-w-[8rem] rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <input
+                        type="number"
+                        value={materialDraft.widthMm}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, widthMm: e.target.value }))}
+                        placeholder="W mm"
+                        aria-label="W mm"
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <input
+                        type="number"
+                        value={materialDraft.heightMm}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, heightMm: e.target.value }))}
+                        placeholder="H mm"
+                        aria-label="H mm"
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <input
+                        type="number"
+                        value={materialDraft.thicknessMm}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, thicknessMm: e.target.value }))}
+                        placeholder="Thick"
+                        aria-label="Thick"
+                        className="w-14 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <input
+                        type="number"
+                        value={materialDraft.costPerSheet}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, costPerSheet: e.target.value }))}
+                        placeholder="Cost"
+                        aria-label="Cost"
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <input
+                        type="number"
+                        value={materialDraft.gutterMm}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, gutterMm: e.target.value }))}
+                        placeholder="Gap"
+                        aria-label="Gap"
+                        className="w-14 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <select
+                        value={materialDraft.layerPreset}
+                        onChange={(e) => setMaterialDraft((d) => ({ ...d, layerPreset: e.target.value as MaterialDraft['layerPreset'] }))}
+                        aria-label="Layer preset"
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      >
+                        <option value="">Layers: keep</option>
+                        <option value="original">Layers: original</option>
+                        <option value="inverted">Layers: inverted</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={saveMaterialDraft}
+                        disabled={!(parseFloat(materialDraft.widthMm) > 0 && parseFloat(materialDraft.heightMm) > 0)}
+                        className="rounded-lg bg-indigo-600 px-3 py-1 text-xs font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                      >
+                        {materialDraft.id ? 'Save' : 'Add'}
+                      </button>
+                      {materialDraft.id && (
+                        <button type="button" onClick={() => setMaterialDraft(EMPTY_MATERIAL_DRAFT)} className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60">
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div className="mt-2 flex gap-6">
                   <div>
                     <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">Width</label>
@@ -793,7 +1540,148 @@ export default function GeneratorPage() {
                       <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
                     </div>
                   </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowOptimizer((v) => !v)}
+                    aria-expanded={showOptimizer}
+                    className="self-end rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60 py-1.5"
+                    title="Find the panel size that wastes the least material"
+                  >
+                    Optimize
+                  </button>
                 </div>
+                {showOptimizer && (
+                  <div className="mt-3 space-y-2 rounded-lg border border-slate-200 bg-white p-2 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950/40 dark:text-slate-300">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>Laser bed</span>
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          value={bedSizeRaw.width}
+                          onChange={(e) => setBedSizeRaw((b) => ({ ...b, width: e.target.value }))}
+                          aria-label="Bed width"
+                          className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                        x
+                        <input
+                          type="number"
+                          value={bedSizeRaw.height}
+                          onChange={(e) => setBedSizeRaw((b) => ({ ...b, height: e.target.value }))}
+                          aria-label="Bed height"
+                          className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                        <span className="text-slate-500 dark:text-slate-400">mm</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <span>Smallest panel side</span>
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min="0"
+                          value={minPanelSideMmRaw}
+                          onChange={(e) => setMinPanelSideMmRaw(e.target.value)}
+                          className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                        <span className="text-slate-500 dark:text-slate-400">mm</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <span>Goal</span>
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={optimizeGoal}
+                          onChange={(e) => setOptimizeGoal(e.target.value as PanelOptimizeOptions['goal'])}
+                          className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        >
+                          <option value="area">Least material</option>
+                          <option value="sheets">Fewest sheets</option>
+                        </select>
+                        <select
+                          value={roundPanelToMm}
+                          onChange={(e) => setRoundPanelToMm(Number(e.target.value))}
+                          aria-label="Round sizes to"
+                          className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        >
+                          <option value={1}>Exact (1 mm)</option>
+                          <option value={5}>Round to 5 mm</option>
+                          <option value={10}>Round to 10 mm</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div>
+                      <input
+                        value={stockSizesRaw}
+                        onChange={(e) => setStockSizesRaw(e.target.value)}
+                        placeholder="Stock sizes, e.g. 300x300, 600x400"
+                        aria-label="Stock sizes"
+                        className="w-full rounded-md border border-slate-300 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <label className="mt-1 flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={stockOnly}
+                          onChange={(e) => setStockOnly(e.target.checked)}
+                          className="h-3.5 w-3.5 accent-indigo-500"
+                        />
+                        Stock sizes only
+                      </label>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={findPanelSizes}
+                      disabled={outputCopies.length === 0}
+                      className="rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                    >
+                      Find sizes for {outputCopies.length} item(s)
+                    </button>
+                    {isNested && <p className="text-[11px] text-slate-400 dark:text-slate-500">Estimated with a fixed-cell grid.</p>}
+                    {keepOutZones.length > 0 && (
+                      <p className="text-[11px] text-amber-700 dark:text-amber-300">Keep-out zones are ignored here; sizes assume a whole sheet.</p>
+                    )}
+                    {sizeCandidates && sizeCandidates.length === 0 && (
+                      <p className="text-amber-700 dark:text-amber-300">No panel size up to the bed size fits a design.</p>
+                    )}
+                    {sizeCandidates && sizeCandidates.length > 0 && (
+                      <table className="w-full border-collapse text-left tabular-nums">
+                        <thead>
+                          <tr className="border-b border-slate-200 dark:border-slate-700">
+                            <th className="py-1 pr-2 font-medium">Size (mm)</th>
+                            <th className="py-1 pr-2 text-right font-medium">Per panel</th>
+                            <th className="py-1 pr-2 text-right font-medium">Panels</th>
+                            <th className="py-1 pr-2 text-right font-medium">Used</th>
+                            <th className="py-1" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sizeCandidates.map((c) => (
+                            <tr key={`${c.widthMm}x${c.heightMm}`} className="border-b border-slate-100 last:border-0 dark:border-slate-800">
+                              <td className="py-1 pr-2">
+                                {Math.round(c.widthMm * 10) / 10} x {Math.round(c.heightMm * 10) / 10}
+                                {c.stock && <span className="ml-1 text-slate-400 dark:text-slate-500">stock</span>}
+                              </td>
+                              <td className="py-1 pr-2 text-right">{c.capacityPerPanel}</td>
+                              <td className="py-1 pr-2 text-right">{c.panelCount}</td>
+                              <td className="py-1 pr-2 text-right">{Math.round(c.utilization * 100)}%</td>
+                              <td className="py-1 text-right">
+                                <button
+                                  type="button"
+                                  onClick={() => {
+                                    setPanelWidthMmRaw(String(Math.round(c.widthMm * 10) / 10));
+                                    setPanelHeightMmRaw(String(Math.round(c.heightMm * 10) / 10));
+                                  }}
+                                  className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                                >
+                                  Use
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Artwork Size */}
@@ -873,10 +1761,150 @@ export default function GeneratorPage() {
                       <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
                     </div>
                   </div>
+                  <div>
+                    <span className="text-sm text-slate-700 dark:text-slate-300">Panel margins</span>
+                    <p className="text-[11px] text-slate-400 dark:text-slate-500">Keep clear of clamps at the panel edges</p>
+                    <div className="mt-1.5 flex items-center gap-1.5">
+                      <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                        T
+                        <input
+                          type="number"
+                          min="0"
+                          value={marginTopMmRaw}
+                          onChange={(e) => setMarginTopMmRaw(e.target.value)}
+                          title="Top margin"
+                          className="w-12 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                        R
+                        <input
+                          type="number"
+                          min="0"
+                          value={marginRightMmRaw}
+                          onChange={(e) => setMarginRightMmRaw(e.target.value)}
+                          title="Right margin"
+                          className="w-12 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                        B
+                        <input
+                          type="number"
+                          min="0"
+                          value={marginBottomMmRaw}
+                          onChange={(e) => setMarginBottomMmRaw(e.target.value)}
+                          title="Bottom margin"
+                          className="w-12 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                        L
+                        <input
+                          type="number"
+                          min="0"
+                          value={marginLeftMmRaw}
+                          onChange={(e) => setMarginLeftMmRaw(e.target.value)}
+                          title="Left margin"
+                          className="w-12 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                        />
+                      </label>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Layout</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">
+                        {layoutMode === 'contour'
+                          ? 'Designs packed by their blue cut line'
+                          : layoutMode === 'nest'
+                            ? 'Each design keeps its own size'
+                            : 'Staggered rows pack round designs closer'}
+                      </p>
+                    </div>
+                    <select
+                      value={layoutMode}
+                      onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="grid">Grid</option>
+                      <option value="hex">Staggered (hex)</option>
+                      <option value="nest">Nested (mixed sizes)</option>
+                      <option value="contour">Contour (cut outlines)</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Orientation</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Turn designs 90° to fit more per panel</p>
+                    </div>
+                    <select
+                      value={orientation}
+                      onChange={(e) => setOrientation(e.target.value as OrientationMode)}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="none">As drawn</option>
+                      <option value="rotate-90">Turn 90°</option>
+                      <option value="auto">Auto (best fit)</option>
+                    </select>
+                  </div>
+                  {!isNested && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm text-slate-700 dark:text-slate-300">Fill order</span>
+                        <p className="text-[11px] text-slate-400 dark:text-slate-500">Where a part-filled panel leaves its offcut</p>
+                      </div>
+                      <select
+                        value={fillOrder}
+                        onChange={(e) => setFillOrder(e.target.value as FillOrder)}
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      >
+                        <option value="rows">Rows, top down</option>
+                        <option value="bottom-up">Rows, bottom up</option>
+                        <option value="columns">Columns, left to right</option>
+                        <option value="serpentine">Serpentine</option>
+                        <option value="center-out">Center out</option>
+                      </select>
+                    </div>
+                  )}
+                  {!isNested && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm text-slate-700 dark:text-slate-300">Spread</span>
+                        <p className="text-[11px] text-slate-400 dark:text-slate-500">Fill panels in turn, or share items evenly</p>
+                      </div>
+                      <select
+                        value={distribution}
+                        onChange={(e) => setDistribution(e.target.value as Distribution)}
+                        className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      >
+                        <option value="fill">Fill in order</option>
+                        <option value="balanced">Balance evenly</option>
+                      </select>
+                    </div>
+                  )}
+                  {!isNested && (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm text-slate-700 dark:text-slate-300">Fit to panels</span>
+                        <p className="text-[11px] text-slate-400 dark:text-slate-500">Shrink the art to fit the job on this many panels</p>
+                      </div>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={targetPanelCountRaw}
+                        onChange={(e) => setTargetPanelCountRaw(e.target.value)}
+                        placeholder="Off"
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <div>
                       <span className="text-sm text-slate-700 dark:text-slate-300">Label space</span>
-                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Room below each design for the name</p>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Room beside each design for the name (text height for overlay/back)</p>
                     </div>
                     <div className="flex items-center gap-1">
                       <input
@@ -906,6 +1934,236 @@ export default function GeneratorPage() {
                 </div>
               </div>
 
+              {/* Keep-out zones */}
+              <div className="border-t border-slate-200 dark:border-slate-700 pt-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Keep-out zones</h3>
+                  <div className="flex gap-1.5">
+                    <button type="button" onClick={addKeepOutRect} className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60">
+                      Add rectangle
+                    </button>
+                    <input
+                      ref={keepOutInputRef}
+                      type="file"
+                      accept=".svg,image/svg+xml"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleKeepOutFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => keepOutInputRef.current?.click()}
+                      className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60"
+                      title="An SVG of the areas to avoid, drawn at panel scale from its top-left corner"
+                    >
+                      Import outline SVG
+                    </button>
+                  </div>
+                </div>
+                <p className="text-[11px] text-slate-400 dark:text-slate-500 mt-1">Remnant sheets: cells touching these areas stay empty (mm from the panel's top-left)</p>
+                {keepOutError && <p className="mt-1.5 text-xs text-red-600 dark:text-red-300">{keepOutError}</p>}
+                {keepOutDrafts.length > 0 && (
+                  <div className="mt-2 space-y-1.5">
+                    {keepOutDrafts.map((d) => (
+                      <div key={d.id} className="flex flex-wrap items-center gap-1.5">
+                        <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                          Panel
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={d.panel}
+                            onChange={(e) => updateKeepOut(d.id, 'panel', e.target.value)}
+                            placeholder="All"
+                            title="Panel number; empty for every panel"
+                            className="w-12 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                          />
+                        </label>
+                        {d.kind === 'rect' ? (
+                          (['x', 'y', 'width', 'height'] as const).map((field) => (
+                            <label key={field} className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
+                              {field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()}
+                              <input
+                                type="number"
+                                min={field === 'width' || field === 'height' ? '0' : undefined}
+                                value={d[field]}
+                                onChange={(e) => updateKeepOut(d.id, field, e.target.value)}
+                                className="w-14 rounded-md border border-slate-300 bg-white px-1.5 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                              />
+                            </label>
+                          ))
+                        ) : (
+                          <span className="min-w-0 truncate text-xs text-slate-700 dark:text-slate-300" title={d.name}>
+                            {d.name} ({d.shapes.length} outline(s))
+                          </span>
+                        )}
+                        <button type="button" onClick={() => removeKeepOut(d.id)} className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-800 hover:bg-slate-100 dark:border-slate-700 dark:bg-slate-950/30 dark:text-slate-200 dark:hover:bg-slate-900/60">
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Labels */}
+              <div className="border-t border-slate-200 dark:border-slate-700 pt-4">
+                <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100 mb-3">Labels</h3>
+                <div className="space-y-2.5">
+                  <div className="flex items-start justify-between gap-2.5">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Placement</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Back panels are mirrored so names land behind each design</p>
+                    </div>
+                    <select
+                      value={labelPlacement}
+                      onChange={(e) => setLabelPlacement(e.target.value as LabelPlacement)}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="below">Below art</option>
+                      <option value="above">Above art</option>
+                      <option value="right">Right of art</option>
+                      <option value="overlay">Over art (centered)</option>
+                      <option value="back-panel">Separate back panel</option>
+                      <option value="arc">Curved along rim</option>
+                    </select>
+                  </div>
+                  {labelPlacement === 'arc' && (
+                    <div className="ml-6 space-y-1.5">
+                      {[
+                        { label: 'Inset from cut line', value: labelArcOffsetMmRaw, set: setLabelArcOffsetMmRaw, unit: 'mm', step: 0.5 },
+                        { label: 'Arc start (0° = top)', value: labelArcStartDegRaw, set: setLabelArcStartDegRaw, unit: '°', step: 5 },
+                        { label: 'Arc length', value: labelArcSpanDegRaw, set: setLabelArcSpanDegRaw, unit: '°', step: 5 },
+                      ].map((field) => (
+                        <div key={field.label} className="flex items-center justify-between">
+                          <span className="text-xs text-slate-600 dark:text-slate-400">{field.label}</span>
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="number"
+                              value={field.value}
+                              onChange={(e) => field.set(e.target.value)}
+                              step={field.step}
+                              className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                            />
+                            <span className="w-6 text-xs text-slate-500 dark:text-slate-400">{field.unit}</span>
+                          </div>
+                        </div>
+                      ))}
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Text is centered in the arc and shrunk to fit; Label space caps its height</p>
+                    </div>
+                  )}
+                  <div className="flex items-start justify-between gap-2.5">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Render as</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Text, outlined paths, or single-line strokes for vector scoring</p>
+                    </div>
+                    <select
+                      value={labelRenderMode}
+                      onChange={(e) => setLabelRenderMode(e.target.value as 'text' | 'outline' | 'single-line')}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="text">Text</option>
+                      <option value="outline">Outlines (font file)</option>
+                      <option value="single-line">Single-line</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Max lines</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Wrap long names to keep them readable</p>
+                    </div>
+                    <input
+                      type="number"
+                      value={labelMaxLinesRaw}
+                      onChange={(e) => setLabelMaxLinesRaw(e.target.value)}
+                      min={1}
+                      max={6}
+                      step={1}
+                      className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1.5 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    />
+                  </div>
+                  {labelRenderMode === 'outline' && (
+                    <div className="ml-6 space-y-1">
+                      <input
+                        type="file"
+                        accept=".ttf,.otf,.woff,font/ttf,font/otf,font/woff"
+                        onChange={(e) => handleOutlineFontFile(e.target.files?.[0])}
+                        className="block w-full text-xs text-slate-700 file:mr-2 file:rounded-md file:border file:border-slate-300 file:bg-white file:px-2 file:py-1 file:text-xs file:text-slate-800 dark:text-slate-300 dark:file:border-slate-700 dark:file:bg-slate-950/60 dark:file:text-slate-200"
+                      />
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">
+                        {outlineFont ? `Font: ${outlineFont.name}` : 'Pick a TTF, OTF or WOFF font file (read locally)'}
+                      </p>
+                      {fontError && <p className="text-[11px] text-red-600 dark:text-red-300">{fontError}</p>}
+                    </div>
+                  )}
+                  {labelRenderMode === 'single-line' && (
+                    <div className="ml-6 flex items-center gap-2">
+                      <select
+                        value={strokeFontId}
+                        onChange={(e) => setStrokeFontId(e.target.value as StrokeFontId)}
+                        className="min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      >
+                        {STROKE_FONTS.map((f) => (
+                          <option key={f.id} value={f.id}>{f.name}</option>
+                        ))}
+                      </select>
+                      <span className="text-xs text-slate-600 dark:text-slate-400">Stroke:</span>
+                      <input
+                        type="number"
+                        value={labelStrokeWidthMmRaw}
+                        onChange={(e) => setLabelStrokeWidthMmRaw(e.target.value)}
+                        step={0.05}
+                        min={0.01}
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
+                    </div>
+                  )}
+                  <div className="flex items-start justify-between gap-2.5">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Size</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">One size per panel or job looks tidier than per-label fitting</p>
+                    </div>
+                    <select
+                      value={labelSizing}
+                      onChange={(e) => setLabelSizing(e.target.value as 'fit' | 'uniform-panel' | 'uniform-job')}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="fit">Fit each label</option>
+                      <option value="uniform-panel">Same per panel</option>
+                      <option value="uniform-job">Same for all panels</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-slate-700 dark:text-slate-300">Min / max size</span>
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="number"
+                        value={labelMinFontSizeMmRaw}
+                        onChange={(e) => setLabelMinFontSizeMmRaw(e.target.value)}
+                        placeholder="min"
+                        step={0.5}
+                        min={0}
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <span className="text-xs text-slate-500 dark:text-slate-400">–</span>
+                      <input
+                        type="number"
+                        value={labelMaxFontSizeMmRaw}
+                        onChange={(e) => setLabelMaxFontSizeMmRaw(e.target.value)}
+                        placeholder="max"
+                        step={0.5}
+                        min={0}
+                        className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-right text-sm tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                      />
+                      <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
               {/* Options */}
               <div className="border-t border-slate-200 dark:border-slate-700 pt-4">
                 <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100 mb-3">Options</h3>
@@ -961,6 +2219,20 @@ export default function GeneratorPage() {
                       <span className="text-xs text-slate-500 dark:text-slate-400">mm</span>
                     </div>
                   )}
+                  <div className="flex items-start justify-between gap-2.5">
+                    <div>
+                      <span className="text-sm text-slate-700 dark:text-slate-300">Unreadable files</span>
+                      <p className="text-[11px] text-slate-400 dark:text-slate-500">Skip them, or keep their cell with a placeholder</p>
+                    </div>
+                    <select
+                      value={invalidFileMode}
+                      onChange={(e) => setInvalidFileMode(e.target.value as 'skip' | 'placeholder')}
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-100"
+                    >
+                      <option value="skip">Skip</option>
+                      <option value="placeholder">Placeholder</option>
+                    </select>
+                  </div>
                 </div>
               </div>
 
@@ -1087,14 +2359,75 @@ export default function GeneratorPage() {
                 </div>
 
               <div className="mt-2 rounded-lg border border-slate-200 bg-white p-2 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950/40 dark:text-slate-300">
+                {isNested ? (
+                  <div>
+                    Nested: each design is packed by its {layoutMode === 'contour' ? 'cut outline' : 'measured size'}
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      Grid: <span className="font-medium">{grid.cols}</span>x<span className="font-medium">{grid.rows}</span> ={' '}
+                      <span className="font-medium">{grid.capacityPerPanel}</span> per panel
+                      {grid.rotated && ' (designs turned 90°)'}
+                    </div>
+                    <div>
+                      Cell: <span className="font-medium">{Math.round((grid.placements[0]?.width ?? cellWidthMm) * 100) / 100}</span> x{' '}
+                      <span className="font-medium">{Math.round((grid.placements[0]?.height ?? cellHeightMm) * 100) / 100}</span> mm
+                    </div>
+                  </>
+                )}
                 <div>
-                  Grid: <span className="font-medium">{grid.cols}</span>x<span className="font-medium">{grid.rows}</span> ={' '}
-                  <span className="font-medium">{grid.capacityPerPanel}</span> per panel
-                </div>
-                <div>
-                  Selected: <span className="font-medium">{selectedFiles.length}</span> -&gt; Panels:{' '}
-                  <span className="font-medium">{panelCount}</span>
+                  {csvOrder ? (
+                    <>Ordered copies: </>
+                  ) : (
+                    <>Selected: <span className="font-medium">{selectedFiles.length}</span> file(s), copies: </>
+                  )}
+                  <span className="font-medium">{selectedFilesForOutput.length}</span> -&gt; Panels:{' '}
+                  <span className="font-medium">{isNested ? 'after Preview' : panelCount}</span>
+                  {!isNested && panelCount > 1 && panelCount <= 12 && <> ({panelSizes.join(' / ')})</>}
                 </div>
+                {materialUsage && selectedMaterial && (
+                  <div>
+                    {selectedMaterial.name}:{' '}
+                    {materialUsage.sheets === null ? (
+                      <>{selectedMaterial.costPerSheet.toFixed(2)} per sheet, total after Preview</>
+                    ) : (
+                      <>
+                        <span className="font-medium">{materialUsage.sheets}</span> sheet(s) ={' '}
+                        <span className="font-medium">{materialUsage.cost.toFixed(2)}</span>,{' '}
+                        {Math.round(materialUsage.utilization * 100)}% of the material used
+                      </>
+                    )}
+                    {(selectedMaterial.widthMm !== panelWidthMm || selectedMaterial.heightMm !== panelHeightMm) && (
+                      <span className="text-amber-700 dark:text-amber-300"> (panel size differs from the sheet)</span>
+                    )}
+                  </div>
+                )}
+                {!isNested && keepOutZones.length > 0 && (
+                  <div>
+                    Keep-out zones:{' '}
+                    {layoutGrids.map((g, i) => (
+                      <span key={i}>
+                        {i > 0 && ', '}
+                        {i < layoutGrids.length - 1 ? `panel ${i + 1}` : layoutGrids.length > 1 ? 'other panels' : 'every panel'}{' '}
+                        <span className="font-medium">{g.capacityPerPanel}</span>
+                      </span>
+                    ))}{' '}
+                    per panel
+                  </div>
+                )}
+                {artFit && artFit.scale !== null && artFit.scale < 1 && (
+                  <div>
+                    Art shrunk to <span className="font-medium">{Math.floor(artFit.scale * 1000) / 10}%</span> (
+                    {Math.round((artFit.settings.artWidthMm ?? 0) * 10) / 10} x {Math.round((artFit.settings.artHeightMm ?? 0) * 10) / 10} mm,{' '}
+                    {layoutGrids[layoutGrids.length - 1]!.capacityPerPanel} per panel) to fit {targetPanelCount} panel(s)
+                  </div>
+                )}
+                {artFit && artFit.scale === null && (
+                  <div className="mt-2 text-amber-700 dark:text-amber-300">
+                    The job can't fit on {targetPanelCount} panel(s) at any art size; reduce the label space or padding.
+                  </div>
+                )}
                 {layoutWarning && <div className="mt-2 text-amber-700 dark:text-amber-300">{layoutWarning}</div>}
               </div>
 
@@ -1102,7 +2435,7 @@ export default function GeneratorPage() {
                 <button
                   type="button"
                   onClick={generatePanels}
-                  disabled={isGenerating || selectedFiles.length === 0 || grid.capacityPerPanel <= 0}
+                  disabled={isGenerating || selectedFilesForOutput.length === 0 || !layoutFits}
                   className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-400 disabled:opacity-50"
                 >
                   {isGenerating ? 'Generating...' : 'Preview'}
@@ -1110,7 +2443,7 @@ export default function GeneratorPage() {
                 <button
                   type="button"
                   onClick={exportPanels}
-                  disabled={isExporting || isGenerating || selectedFiles.length === 0 || grid.capacityPerPanel <= 0}
+                  disabled={isExporting || isGenerating || selectedFilesForOutput.length === 0 || !layoutFits}
                   className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
                 >
                   {isExporting ? 'Exporting...' : 'Download'}
@@ -1128,6 +2461,36 @@ export default function GeneratorPage() {
                   {genError}
                 </div>
               )}
+
+              {buildReport && (buildReport.errorCount > 0 || buildReport.warningCount > 0) && (
+                <div className="mt-3 rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-200">
+                  <div className="font-semibold">
+                    Build report: {buildReport.errorCount} file(s) with errors, {buildReport.warningCount} with warnings
+                  </div>
+                  <table className="mt-2 w-full table-fixed border-collapse text-left">
+                    <thead>
+                      <tr className="border-b border-amber-300 dark:border-amber-900">
+                        <th className="w-2/5 py-1 pr-2 font-medium">File</th>
+                        <th className="w-16 py-1 pr-2 font-medium">Status</th>
+                        <th className="py-1 font-medium">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {buildReport.files
+                        .filter((entry) => entry.status !== 'ok')
+                        .map((entry) => (
+                          <tr key={entry.path} className="border-b border-amber-200 align-top last:border-0 dark:border-amber-900/50">
+                            <td className="break-words py-1 pr-2 font-medium" title={entry.path}>{getBasename(entry.path)}</td>
+                            <td className={`py-1 pr-2 ${entry.status === 'error' ? 'text-red-700 dark:text-red-300' : ''}`}>
+                              {entry.status === 'error' ? (entry.skipped ? 'Skipped' : 'Placeholder') : 'Warning'}
+                            </td>
+                            <td className="break-words py-1">{[...entry.errors, ...entry.warnings].join('; ')}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </section>
           </div>
         </div>
@@ -1143,6 +2506,9 @@ export default function GeneratorPage() {
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Preview</h3>
                 <p className="text-sm text-slate-500 dark:text-slate-400">
                   Panel {previewModalIndex + 1} of {generatedPanels.length}
+                  {labelPlacement === 'back-panel' && previewModalIndex >= generatedPanels.length / 2 && ' (labels, back side)'}
+                  {panelUtilization?.[previewModalIndex] !== undefined &&
+                    ` · ${Math.round(panelUtilization[previewModalIndex] * 100)}% of the sheet used`}
                 </p>
               </div>
               <button
@@ -1170,7 +2536,8 @@ export default function GeneratorPage() {
                     __html: generatedPanels[previewModalIndex]
                       .replace(/width="[^"]*mm?"/, `width="100%"`)
                       .replace(/height="[^"]*mm?"/, `height="100%"`)
-                      .replace(/<svg/, `<svg preserveAspectRatio="xMidYMid meet"`),
+                      .replace(/<svg/, `<svg preserveAspectRatio="xMidYMid meet"`)
+                      .replace(/<\/svg>\s*$/, `${previewKeepOut}</svg>`),
                   }}
                 />
               </div>
@@ -1230,17 +2597,91 @@ export default function GeneratorPage() {
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Download Panels</h3>
             <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
               Enter a base filename for the downloaded SVG{pendingExportPanels && pendingExportPanels.length > 1 ? 's' : ''}.
-              {pendingExportPanels && pendingExportPanels.length > 1 && (
+              {exportFormat === 'zip' && (
+                <span className="block mt-1">
+                  Archive will be named: <span className="font-mono text-slate-800 dark:text-slate-200">{exportBaseName || 'panel'}.zip</span>
+                </span>
+              )}
+              {exportFormat === 'combined' && (
+                <span className="block mt-1">
+                  File will be named: <span className="font-mono text-slate-800 dark:text-slate-200">{exportBaseName || 'panel'}_combined.svg</span>
+                </span>
+              )}
+              {exportFormat !== 'combined' && pendingExportPanels && pendingExportPanels.length > 1 && (
                 <span className="block mt-1">
                   Files will be named: <span className="font-mono text-slate-800 dark:text-slate-200">{exportBaseName || 'panel'}_001.svg</span>, <span className="font-mono text-slate-800 dark:text-slate-200">{exportBaseName || 'panel'}_002.svg</span>, etc.
                 </span>
               )}
-              {pendingExportPanels && pendingExportPanels.length === 1 && (
+              {exportFormat !== 'combined' && pendingExportPanels && pendingExportPanels.length === 1 && (
                 <span className="block mt-1">
                   File will be named: <span className="font-mono text-slate-800 dark:text-slate-200">{exportBaseName || 'panel'}.svg</span>
                 </span>
               )}
             </p>
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-300">
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="exportFormat"
+                  checked={exportFormat === 'zip'}
+                  onChange={() => setExportFormat('zip')}
+                  className="h-4 w-4 accent-indigo-500"
+                />
+                Single ZIP archive
+              </label>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="exportFormat"
+                  checked={exportFormat === 'files'}
+                  onChange={() => setExportFormat('files')}
+                  className="h-4 w-4 accent-indigo-500"
+                />
+                Separate SVG files
+              </label>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="radio"
+                  name="exportFormat"
+                  checked={exportFormat === 'combined'}
+                  onChange={() => setExportFormat('combined')}
+                  className="h-4 w-4 accent-indigo-500"
+                />
+                One SVG with layers
+              </label>
+              {exportFormat === 'zip' && (
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeManifest}
+                    onChange={(e) => setIncludeManifest(e.target.checked)}
+                    className="h-4 w-4 accent-indigo-500"
+                  />
+                  Include manifest.json
+                </label>
+              )}
+              {exportFormat === 'combined' && (
+                <div className="flex items-center gap-2 text-xs">
+                  <select
+                    value={combinedDirection}
+                    onChange={(e) => setCombinedDirection(e.target.value as 'horizontal' | 'vertical')}
+                    className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-100"
+                  >
+                    <option value="horizontal">Side by side</option>
+                    <option value="vertical">Stacked</option>
+                  </select>
+                  <span>Spacing:</span>
+                  <input
+                    type="number"
+                    value={combinedSpacingMmRaw}
+                    onChange={(e) => setCombinedSpacingMmRaw(e.target.value)}
+                    min={0}
+                    className="w-16 rounded-md border border-slate-300 bg-white px-2 py-1 text-right text-xs tabular-nums text-slate-900 outline-none focus:border-indigo-500 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-100"
+                  />
+                  <span>mm</span>
+                </div>
+              )}
+            </div>
             <div className="mt-4">
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Filename</label>
               <input